@@ -3,6 +3,7 @@ require('dotenv').config()
 const express = require('express')
 const cors = require('cors')
 const OpenAI = require('openai')
+const { createUnfurler } = require('./unfurl')
 
 const app = express()
 const PORT = 8787
@@ -22,30 +23,89 @@ app.use(express.json({ limit: '1mb' }))
 const RATE_LIMIT_WINDOW_MS = 5 * 60 * 1000
 const RATE_LIMIT_MAX = 10
 const requestLog = new Map()
+// Link previews don't cost model calls, so they get their own, looser budget.
+const UNFURL_RATE_LIMIT_MAX = 60
+const unfurlLog = new Map()
 
-function isRateLimited(ip) {
+function isRateLimited(ip, log = requestLog, max = RATE_LIMIT_MAX) {
   const now = Date.now()
-  const entries = (requestLog.get(ip) || []).filter((ts) => now - ts < RATE_LIMIT_WINDOW_MS)
+  const entries = (log.get(ip) || []).filter((ts) => now - ts < RATE_LIMIT_WINDOW_MS)
   entries.push(now)
-  requestLog.set(ip, entries)
-  return entries.length > RATE_LIMIT_MAX
+  log.set(ip, entries)
+  return entries.length > max
 }
 
+// Private and loopback hosts are refused unless explicitly allowed, e.g. to test against a local stub server.
+const unfurler = createUnfurler({ allowPrivateHosts: process.env.UNFURL_ALLOW_PRIVATE_HOSTS === '1' })
+
+const DECISION_STATUSES = ['proposed', 'accepted', 'rejected', 'superseded']
+
 function sanitizeBlocks(rawBlocks) {
   if (!Array.isArray(rawBlocks)) return []
   return rawBlocks
     .map((b) => {
-      const content = [b.text, b.caption, b.label, b.url].filter(Boolean).join(' ').trim()
+      const alt = typeof b.alt === 'string' && b.alt.trim() && b.alt !== b.caption ? `(alt text: ${b.alt})` : null
+      const page =
+        b.type === 'link' && typeof b.description === 'string' && b.description.trim()
+          ? `(from the linked page, not the author: ${b.description.trim().slice(0, 500)})`
+          : null
+      const content = [b.text, b.caption, alt, b.label, b.url, page].filter(Boolean).join(' ').trim()
       return {
         id: typeof b.id === 'string' ? b.id : '',
         type: typeof b.type === 'string' ? b.type : '',
         content,
+        status: b.type === 'decision' && DECISION_STATUSES.includes(b.status) ? b.status : null,
+        tags: sanitizeTags(b.tags),
       }
     })
     .filter((b) => b.id && b.type && b.content)
 }
 
-function buildUserMessage({ mode, blocks, userPrompt }) {
+// Tags people set by hand on a block, or on a quoted passage of it.
+function sanitizeTags(rawTags) {
+  if (!Array.isArray(rawTags)) return []
+  return rawTags
+    .filter((t) => t && typeof t.tag === 'string' && t.tag.trim())
+    .slice(0, 12)
+    .map((t) => ({
+      tag: t.tag.trim().slice(0, 40),
+      quote: typeof t.quote === 'string' && t.quote.trim() ? t.quote.trim().slice(0, 300) : null,
+    }))
+}
+
+function formatBlockLines(blocks) {
+  return blocks
+    .map((b) => {
+      const line = `[${b.id}] ${b.type}${b.status ? ` (${b.status})` : ''} ${b.content}`
+      if (!b.tags.length) return line
+      const tags = b.tags.map((t) => (t.quote ? `${t.tag} on "${t.quote}"` : t.tag)).join('; ')
+      return `${line}\n  Tagged by the author: ${tags}`
+    })
+    .join('\n')
+}
+
+// Connectors drawn between blocks ("A because B"); only kept when both ends are among the sent blocks.
+function sanitizeRelationships(rawRelationships, blocks) {
+  if (!Array.isArray(rawRelationships)) return []
+  const ids = new Set(blocks.map((b) => b.id))
+  return rawRelationships
+    .filter((r) => r && typeof r.from === 'string' && typeof r.to === 'string' && ids.has(r.from) && ids.has(r.to))
+    .slice(0, 40)
+    .map((r) => ({
+      from: r.from,
+      to: r.to,
+      label: typeof r.label === 'string' && r.label.trim() ? r.label.trim().slice(0, 60) : 'relates to',
+    }))
+}
+
+function formatRelationshipLines(relationships) {
+  if (!relationships.length) return ''
+  return `\n\nRelationships (cite both block IDs when you use one):\n${relationships
+    .map((r) => `[${r.from}] ${r.label} [${r.to}]`)
+    .join('\n')}`
+}
+
+function buildUserMessage({ mode, blocks, relationships, userPrompt }) {
   const header = [
     `Mode: ${mode}`,
     userPrompt ? `User focus: ${userPrompt}` : null,
@@ -63,21 +123,25 @@ function buildUserMessage({ mode, blocks, userPrompt }) {
     .filter(Boolean)
     .join('\n')
 
-  const blockLines = blocks.map((b) => `[${b.id}] ${b.type} ${b.content}`).join('\n')
-  return `${header}\n${blockLines}`
+  const blockLines = formatBlockLines(blocks)
+  return `${header}\n${blockLines}${formatRelationshipLines(relationships)}`
 }
 
-async function generateSummary({ mode, blocks, userPrompt }) {
+async function generateSummary({ mode, blocks, relationships, userPrompt }) {
   const system = [
     'You are assisting a designer summarizing canvas artifacts.',
     'Use ONLY the provided block content; never invent facts or decisions.',
     'Surface uncertainty and gaps explicitly.',
+    'Decision blocks are the authoritative record of decisions: report them with their status, and label superseded or rejected ones as such rather than as current.',
+    'Text marked "from the linked page" was fetched from the web page, not written by the author; attribute it to the page.',
+    'Checklist blocks list action items as "[ ]" (open) or "[x]" (done); report open items under open questions or what is missing, and do not present done items as outstanding.',
+    'When a block or passage is tagged by the author (decision, constraint, risk, question, audience or a custom tag), treat that tag as its classification instead of inferring one.',
     'Tone: concise, designer-to-designer.',
   ].join(' ')
 
   const messages = [
     { role: 'system', content: system },
-    { role: 'user', content: buildUserMessage({ mode, blocks, userPrompt }) },
+    { role: 'user', content: buildUserMessage({ mode, blocks, relationships, userPrompt }) },
   ]
 
   // Prefer Responses API if available; fall back to chat.completions.
@@ -108,7 +172,7 @@ app.post('/api/summarize', async (req, res) => {
     return res.status(429).json({ error: 'Rate limit exceeded' })
   }
 
-  const { mode, blocks: rawBlocks, userPrompt } = req.body || {}
+  const { mode, blocks: rawBlocks, relationships: rawRelationships, userPrompt } = req.body || {}
   if (!mode || (mode !== 'selection' && mode !== 'project')) {
     return res.status(400).json({ error: 'Invalid mode' })
   }
@@ -138,7 +202,8 @@ app.post('/api/summarize', async (req, res) => {
   }
 
   try {
-    const summaryText = await generateSummary({ mode, blocks, userPrompt })
+    const relationships = sanitizeRelationships(rawRelationships, blocks)
+    const summaryText = await generateSummary({ mode, blocks, relationships, userPrompt })
     return res.json({ summaryText })
   } catch (err) {
     console.error('Failed to generate summary', err)
@@ -146,16 +211,19 @@ app.post('/api/summarize', async (req, res) => {
   }
 })
 
-async function generateAnswer({ question, blocks }) {
+async function generateAnswer({ question, blocks, relationships }) {
   const system = [
     'You are assisting a designer answering a question about canvas artifacts.',
     'Use ONLY the provided block content; never invent facts or decisions.',
     'Be concise and cite block IDs inline where relevant.',
+    'Tags set by the author are authoritative classifications of the block or passage they are on.',
+    'Text marked "from the linked page" was fetched from the web page, not written by the author; attribute it to the page.',
+    'Decision blocks are authoritative; never present a superseded or rejected decision as current.',
   ].join(' ')
 
   const header = ['Question:', question.trim(), '', 'Blocks:'].join('\n')
-  const blockLines = blocks.map((b) => `[${b.id}] ${b.type} ${b.content}`).join('\n')
-  const input = `${header}\n${blockLines}`
+  const blockLines = formatBlockLines(blocks)
+  const input = `${header}\n${blockLines}${formatRelationshipLines(relationships)}`
 
   if (openai.responses && typeof openai.responses.create === 'function') {
     const response = await openai.responses.create({
@@ -189,7 +257,7 @@ app.post('/api/ask', async (req, res) => {
   if (isRateLimited(ip)) {
     return res.status(429).json({ error: 'Rate limit exceeded' })
   }
-  const { question, blocks: rawBlocks } = req.body || {}
+  const { question, blocks: rawBlocks, relationships: rawRelationships } = req.body || {}
   if (!question || typeof question !== 'string' || !question.trim()) {
     return res.status(400).json({ error: 'Question required' })
   }
@@ -212,7 +280,8 @@ app.post('/api/ask', async (req, res) => {
     return res.status(500).json({ error: 'OpenAI API key not configured' })
   }
   try {
-    const answerText = await generateAnswer({ question, blocks })
+    const relationships = sanitizeRelationships(rawRelationships, blocks)
+    const answerText = await generateAnswer({ question, blocks, relationships })
     return res.json({ answerText })
   } catch (err) {
     console.error('Failed to generate answer', err)
@@ -220,6 +289,23 @@ app.post('/api/ask', async (req, res) => {
   }
 })
 
+app.post('/api/unfurl', async (req, res) => {
+  const ip = req.ip || 'unknown'
+  if (isRateLimited(ip, unfurlLog, UNFURL_RATE_LIMIT_MAX)) {
+    return res.status(429).json({ error: 'Rate limit exceeded' })
+  }
+  const { url } = req.body || {}
+  if (!url || typeof url !== 'string') {
+    return res.status(400).json({ error: 'URL required' })
+  }
+  const result = await unfurler.unfurl(url)
+  if (result.error) {
+    // Expected for plenty of pages; the client keeps the typed label.
+    return res.status(502).json({ error: result.error })
+  }
+  return res.json(result)
+})
+
 app.listen(PORT, HOST, () => {
   console.log(`Server listening on http://${HOST}:${PORT}`)
 })
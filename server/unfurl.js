@@ -0,0 +1,254 @@
+// Fetches a page's title, description and preview image for link cards. Kept free of Express so it can
+// be exercised directly against a stub HTTP server.
+const dns = require('node:dns')
+const http = require('node:http')
+const https = require('node:https')
+const net = require('node:net')
+
+const FETCH_TIMEOUT_MS = 5000
+const MAX_HTML_BYTES = 512 * 1024
+const SUCCESS_TTL_MS = 24 * 60 * 60 * 1000
+// Failures are cached briefly so a dead link is not refetched on every paste, but can recover soon.
+const FAILURE_TTL_MS = 10 * 60 * 1000
+const MAX_CACHE_ENTRIES = 200
+const MAX_REDIRECTS = 3
+const MAX_TITLE_LENGTH = 200
+const MAX_DESCRIPTION_LENGTH = 500
+
+// Loopback, private, link-local (cloud metadata), shared, documentation, multicast and reserved ranges.
+const BLOCKED_ADDRESSES = new net.BlockList()
+;[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'))
+// `::/96` covers `::` and `::1`. IPv4-mapped addresses (`::ffff:127.0.0.1`) are checked against the IPv4
+// ranges by BlockList itself; NAT64 addresses could still smuggle them, so that prefix is blocked outright.
+;[
+  ['::', 96],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'))
+
+const isPublicAddress = (address) => {
+  const family = net.isIP(address)
+  return family !== 0 && !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4')
+}
+
+/**
+ * A `lookup` for `http.request` that resolves every address of the host and refuses the connection if
+ * any of them is not public. The socket then connects to the address vetted here, so a DNS answer that
+ * changes between the check and the connection (rebinding) cannot redirect it.
+ */
+const privateAddressError = (hostname) =>
+  Object.assign(new Error(`${hostname} does not resolve to a public address`), { code: 'EPRIVATEADDRESS' })
+
+function createVettedLookup({ allowPrivateHosts, resolve }) {
+  return (hostname, options, callback) => {
+    resolve(hostname, { all: true }, (err, addresses) => {
+      if (err) return callback(err)
+      if (!addresses.length || (!allowPrivateHosts && !addresses.every((a) => isPublicAddress(a.address)))) {
+        return callback(privateAddressError(hostname))
+      }
+      const usable = options && options.family ? addresses.filter((a) => a.family === options.family) : addresses
+      if (!usable.length) return callback(Object.assign(new Error(`${hostname} has no usable address`), { code: 'ENOTFOUND' }))
+      if (options && options.all) return callback(null, usable)
+      return callback(null, usable[0].address, usable[0].family)
+    })
+  }
+}
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' }
+
+function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (whole, name) => {
+    if (name[0] === '#') {
+      const code = name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10)
+      return Number.isFinite(code) && code > 0 && code < 0x110000 ? String.fromCodePoint(code) : whole
+    }
+    return ENTITIES[name.toLowerCase()] ?? whole
+  })
+}
+
+const clean = (text, max) => {
+  if (typeof text !== 'string') return null
+  const flat = decodeEntities(text).replace(/\s+/g, ' ').trim()
+  if (!flat) return null
+  return flat.length > max ? `${flat.slice(0, max - 1)}…` : flat
+}
+
+function readAttributes(tag) {
+  const attrs = {}
+  for (const match of tag.matchAll(/([a-zA-Z:-]+)\s*=\s*("([^"]*)"|'([^']*)'|([^\s>]+))/g)) {
+    attrs[match[1].toLowerCase()] = match[3] ?? match[4] ?? match[5] ?? ''
+  }
+  return attrs
+}
+
+/** Title, description, image and site name from a page's `<head>`, preferring Open Graph, then Twitter, then plain tags. */
+function parseLinkMetadata(html, pageUrl) {
+  const head = html.slice(0, html.search(/<\/head>/i) === -1 ? html.length : html.search(/<\/head>/i))
+  const meta = {}
+  for (const match of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const attrs = readAttributes(match[0])
+    const key = (attrs.property || attrs.name || '').toLowerCase()
+    if (key && typeof attrs.content === 'string' && !(key in meta)) meta[key] = attrs.content
+  }
+  const titleTag = /<title[^>]*>([\s\S]*?)<\/title>/i.exec(head)?.[1]
+
+  let image = meta['og:image'] || meta['og:image:url'] || meta['twitter:image'] || null
+  if (image) {
+    try {
+      const resolved = new URL(decodeEntities(image.trim()), pageUrl)
+      image = resolved.protocol === 'http:' || resolved.protocol === 'https:' ? resolved.href : null
+    } catch {
+      image = null
+    }
+  }
+
+  return {
+    url: pageUrl,
+    title: clean(meta['og:title'] || meta['twitter:title'] || titleTag, MAX_TITLE_LENGTH),
+    description: clean(meta['og:description'] || meta['twitter:description'] || meta.description, MAX_DESCRIPTION_LENGTH),
+    image,
+    siteName: clean(meta['og:site_name'], MAX_TITLE_LENGTH),
+  }
+}
+
+/** Returns the normalized http(s) URL, or null when it cannot be fetched. Hosts are vetted when connecting. */
+function normalizeUnfurlUrl(raw) {
+  if (typeof raw !== 'string' || !raw.trim() || raw.length > 2048) return null
+  let url
+  try {
+    url = new URL(raw.trim())
+  } catch {
+    return null
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null
+  if (url.username || url.password) return null
+  url.hash = ''
+  return url.href
+}
+
+function openPage(url, { lookup, signal, allowPrivateHosts }) {
+  const target = new URL(url)
+  const client = target.protocol === 'https:' ? https : http
+  // Sockets skip `lookup` for IP literals, so those are vetted here.
+  const literal = target.hostname.replace(/^\[|\]$/g, '')
+  if (net.isIP(literal) && !allowPrivateHosts && !isPublicAddress(literal)) return Promise.reject(privateAddressError(literal))
+  return new Promise((resolve, reject) => {
+    const req = client.request(
+      target,
+      {
+        method: 'GET',
+        lookup,
+        signal,
+        headers: { Accept: 'text/html,application/xhtml+xml', 'User-Agent': 'RecapCanvas-LinkPreview/1.0' },
+      },
+      resolve
+    )
+    req.on('error', reject)
+    req.end()
+  })
+}
+
+async function readLimited(response, limit) {
+  const chunks = []
+  let size = 0
+  for await (const chunk of response) {
+    chunks.push(chunk)
+    size += chunk.length
+    if (size >= limit) break
+  }
+  response.destroy()
+  return Buffer.concat(chunks).subarray(0, limit).toString('utf8')
+}
+
+/**
+ * `unfurl(url)` resolves to link metadata, or `{ error }` when the page could not be read. Results (and,
+ * briefly, failures) are cached per URL; concurrent requests for the same URL share one fetch.
+ * `allowPrivateHosts` lets it reach loopback and private addresses, e.g. a local stub server in tests;
+ * `resolve` replaces `dns.lookup`.
+ */
+function createUnfurler({ allowPrivateHosts = false, timeoutMs = FETCH_TIMEOUT_MS, now = Date.now, resolve = dns.lookup } = {}) {
+  const cache = new Map()
+  const inFlight = new Map()
+  const lookup = createVettedLookup({ allowPrivateHosts, resolve })
+
+  const remember = (key, result) => {
+    cache.delete(key)
+    cache.set(key, { result, expiresAt: now() + (result.error ? FAILURE_TTL_MS : SUCCESS_TTL_MS) })
+    while (cache.size > MAX_CACHE_ENTRIES) cache.delete(cache.keys().next().value)
+    return result
+  }
+
+  const load = async (url) => {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), timeoutMs)
+    try {
+      // Redirects are followed by hand so every hop gets the same host check as the first request.
+      let finalUrl = url
+      let response
+      for (let hop = 0; ; hop += 1) {
+        response = await openPage(finalUrl, { lookup, signal: controller.signal, allowPrivateHosts })
+        const location = response.statusCode >= 300 && response.statusCode < 400 ? response.headers.location : null
+        if (!location) break
+        response.resume()
+        if (hop >= MAX_REDIRECTS) return { error: 'Page redirected too many times' }
+        finalUrl = normalizeUnfurlUrl(new URL(location, finalUrl).href)
+        if (!finalUrl) return { error: 'Page redirected somewhere that cannot be previewed' }
+      }
+      if (response.statusCode < 200 || response.statusCode >= 300) {
+        response.resume()
+        return { error: `Page responded with ${response.statusCode}` }
+      }
+      const type = response.headers['content-type'] || ''
+      if (!/text\/html|application\/xhtml\+xml/i.test(type)) {
+        response.destroy()
+        return { error: 'Not an HTML page' }
+      }
+      const metadata = parseLinkMetadata(await readLimited(response, MAX_HTML_BYTES), finalUrl)
+      if (!metadata.title && !metadata.description && !metadata.image) return { error: 'Page has no preview metadata' }
+      return metadata
+    } catch (err) {
+      if (err && err.name === 'AbortError') return { error: 'Page took too long to respond' }
+      if (err && err.code === 'EPRIVATEADDRESS') return { error: 'URL cannot be previewed' }
+      return { error: 'Page could not be fetched' }
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  const unfurl = async (rawUrl) => {
+    const url = normalizeUnfurlUrl(rawUrl)
+    if (!url) return { error: 'URL cannot be previewed' }
+    const cached = cache.get(url)
+    if (cached && cached.expiresAt > now()) return cached.result
+    const pending = inFlight.get(url)
+    if (pending) return pending
+    const request = load(url)
+      .then((result) => remember(url, result))
+      .finally(() => inFlight.delete(url))
+    inFlight.set(url, request)
+    return request
+  }
+
+  return { unfurl, cacheSize: () => cache.size }
+}
+
+module.exports = { createUnfurler, isPublicAddress, normalizeUnfurlUrl, parseLinkMetadata }
@@ -0,0 +1,125 @@
+const { after, before, describe, it } = require('node:test')
+const assert = require('node:assert/strict')
+const http = require('node:http')
+const { createUnfurler, isPublicAddress, parseLinkMetadata } = require('./unfurl')
+
+const ARTICLE = `<!doctype html><html><head>
+  <title>Fallback title</title>
+  <meta property="og:title" content="Quarterly &amp; annual review">
+  <meta name="description" content="  What changed   this quarter. ">
+  <meta property="og:image" content="/images/cover.png">
+</head><body>Ignored</body></html>`
+
+const routes = {
+  '/article': (req, res) => res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(ARTICLE),
+  '/file.pdf': (req, res) => res.writeHead(200, { 'Content-Type': 'application/pdf' }).end('%PDF-1.7'),
+  '/slow': (req, res) => setTimeout(() => res.writeHead(200, { 'Content-Type': 'text/html' }).end(ARTICLE), 500),
+  '/loop': (req, res) => res.writeHead(302, { Location: '/loop' }).end(),
+  '/to-file': (req, res) => res.writeHead(302, { Location: 'file:///etc/passwd' }).end(),
+  '/moved': (req, res) => res.writeHead(301, { Location: '/article' }).end(),
+}
+
+describe('createUnfurler', () => {
+  const hits = {}
+  let server
+  let base
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      hits[req.url] = (hits[req.url] ?? 0) + 1
+      const route = routes[req.url]
+      if (route) route(req, res)
+      else res.writeHead(404).end()
+    })
+    await new Promise((resolve) => server.listen(0, '127.0.0.1', resolve))
+    base = `http://127.0.0.1:${server.address().port}`
+  })
+
+  after(() => {
+    server.closeAllConnections()
+    server.close()
+  })
+
+  it('reads the title, description and image, resolving a relative og:image', async () => {
+    const { unfurl } = createUnfurler({ allowPrivateHosts: true })
+    assert.deepEqual(await unfurl(`${base}/article#section`), {
+      url: `${base}/article`,
+      title: 'Quarterly & annual review',
+      description: 'What changed this quarter.',
+      image: `${base}/images/cover.png`,
+      siteName: null,
+    })
+  })
+
+  it('serves repeat requests from the cache and shares requests in flight', async () => {
+    const { unfurl, cacheSize } = createUnfurler({ allowPrivateHosts: true })
+    const before = hits['/article'] ?? 0
+    const [first, second] = await Promise.all([unfurl(`${base}/article`), unfurl(`${base}/article`)])
+    assert.equal(hits['/article'], before + 1)
+    assert.equal(first, second)
+    assert.equal(await unfurl(`${base}/article`), first)
+    assert.equal(hits['/article'], before + 1)
+    assert.equal(cacheSize(), 1)
+  })
+
+  it('follows a redirect and reports the final URL', async () => {
+    const { unfurl } = createUnfurler({ allowPrivateHosts: true })
+    assert.equal((await unfurl(`${base}/moved`)).url, `${base}/article`)
+  })
+
+  it('rejects pages that are not HTML', async () => {
+    const { unfurl } = createUnfurler({ allowPrivateHosts: true })
+    assert.deepEqual(await unfurl(`${base}/file.pdf`), { error: 'Not an HTML page' })
+  })
+
+  it('gives up on slow pages', async () => {
+    const { unfurl } = createUnfurler({ allowPrivateHosts: true, timeoutMs: 100 })
+    assert.deepEqual(await unfurl(`${base}/slow`), { error: 'Page took too long to respond' })
+  })
+
+  it('stops after too many redirects and refuses redirects to other schemes', async () => {
+    const { unfurl } = createUnfurler({ allowPrivateHosts: true })
+    const before = hits['/loop'] ?? 0
+    assert.deepEqual(await unfurl(`${base}/loop`), { error: 'Page redirected too many times' })
+    assert.equal(hits['/loop'], before + 4)
+    assert.deepEqual(await unfurl(`${base}/to-file`), { error: 'Page redirected somewhere that cannot be previewed' })
+  })
+
+  it('refuses loopback and private addresses unless allowed', async () => {
+    const { unfurl } = createUnfurler()
+    const refused = { error: 'URL cannot be previewed' }
+    const before = hits['/article'] ?? 0
+    assert.deepEqual(await unfurl(`${base}/article`), refused)
+    assert.deepEqual(await unfurl(`http://[::ffff:127.0.0.1]:${server.address().port}/article`), refused)
+    assert.deepEqual(await unfurl(`http://localhost:${server.address().port}/article`), refused)
+    assert.equal(hits['/article'] ?? 0, before)
+  })
+
+  it('checks the address a name resolves to, not the name', async () => {
+    const resolve = (hostname, options, callback) => callback(null, [{ address: '127.0.0.1', family: 4 }])
+    const { unfurl } = createUnfurler({ resolve })
+    const port = server.address().port
+    assert.deepEqual(await unfurl(`http://example.com:${port}/article`), { error: 'URL cannot be previewed' })
+  })
+})
+
+describe('isPublicAddress', () => {
+  it('rejects loopback, private, link-local, shared, mapped and unspecified addresses', () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fd00::1', 'fe80::1', '::ffff:7f00:1', '::ffff:169.254.169.254']) {
+      assert.equal(isPublicAddress(address), false, address)
+    }
+  })
+
+  it('accepts public addresses', () => {
+    for (const address of ['93.184.216.34', '2606:2800:220:1:248:1893:25c8:1946']) {
+      assert.equal(isPublicAddress(address), true, address)
+    }
+  })
+})
+
+describe('parseLinkMetadata', () => {
+  it('drops images with non-http schemes', () => {
+    const html = '<head><meta property="og:image" content="javascript:alert(1)"><title>Page</title></head>'
+    assert.equal(parseLinkMetadata(html, 'https://example.com/').image, null)
+  })
+})
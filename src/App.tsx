@@ -1,17 +1,62 @@
+import { useEffect, useState } from 'react'
 import './App.css'
-import { Canvas } from './components/Canvas'
+import { CanvasLoader } from './components/CanvasLoader'
+import { CanvasSwitcher } from './components/CanvasSwitcher'
+import {
+  createCanvas,
+  deleteCanvas,
+  duplicateCanvas,
+  loadCanvasIndex,
+  renameCanvas,
+  saveCanvasIndex,
+} from './state/persistence'
 
 function App() {
+  const [canvasIndex, setCanvasIndex] = useState(() => loadCanvasIndex())
+  const activeCanvas = canvasIndex.canvases.find((c) => c.id === canvasIndex.activeId) ?? canvasIndex.canvases[0]
+
+  useEffect(() => {
+    saveCanvasIndex(canvasIndex)
+  }, [canvasIndex])
+
   return (
     <div className="app-shell">
       <header className="app-header">
         <div>
           <p className="eyebrow">Recap Canvas · Prototype</p>
-          <h1>Borderless Light Workshop (Handover)</h1>
+          <h1>
+            <input
+              className="canvas-name-input"
+              aria-label="Canvas name"
+              value={activeCanvas.name}
+              placeholder="Untitled canvas"
+              onChange={(e) => setCanvasIndex((prev) => renameCanvas(prev, activeCanvas.id, e.target.value))}
+            />
+          </h1>
         </div>
+        <CanvasSwitcher
+          canvases={canvasIndex.canvases}
+          activeId={activeCanvas.id}
+          onSwitch={(id) => setCanvasIndex((prev) => ({ ...prev, activeId: id }))}
+          onCreate={() => void createCanvas(canvasIndex, 'Untitled canvas').then(setCanvasIndex)}
+          onDuplicate={() => void duplicateCanvas(canvasIndex, activeCanvas.id).then(setCanvasIndex)}
+          onDelete={() => {
+            const confirmDelete = window.confirm(`Delete “${activeCanvas.name || 'Untitled canvas'}”? This cannot be undone.`)
+            if (!confirmDelete) return
+            void deleteCanvas(canvasIndex, activeCanvas.id).then(setCanvasIndex, (err: unknown) => {
+              console.warn('Failed to delete canvas', err)
+              window.alert('The canvas could not be deleted from this browser’s storage. Please try again.')
+            })
+          }}
+        />
       </header>
 
-      <Canvas />
+      <CanvasLoader
+        key={activeCanvas.id}
+        canvasId={activeCanvas.id}
+        canvasName={activeCanvas.name}
+        onRename={(name) => setCanvasIndex((prev) => renameCanvas(prev, activeCanvas.id, name))}
+      />
     </div>
   )
 }
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest'
+import type { TextBlock } from '../models/canvas'
+import { summarizeSelection } from './summarize'
+
+const at = '2024-05-01T10:00:00.000Z'
+
+const note = (id: string, text: string): TextBlock => ({ id, type: 'text', text, x: 0, y: 0, width: 300, createdAt: at, updatedAt: at })
+
+const section = (summaryText: string, heading: string) => {
+  const lines = summaryText.split('\n')
+  const start = lines.indexOf(`${heading}:`)
+  const rest = lines.slice(start + 1)
+  const end = rest.findIndex((line) => !line.startsWith('•'))
+  return rest.slice(0, end === -1 ? rest.length : end)
+}
+
+describe('summarizeSelection', () => {
+  it('gives every tension its own bullet and citation', () => {
+    const blocks = [
+      note('T-1', '## Venue\n- Safety risk with the mirrors\n- Budget constraint: must stay portable'),
+      note('T-2', 'Open question: should kids and adults share one slot?'),
+    ]
+    const summary = summarizeSelection(blocks)
+    const tensions = section(summary.summaryText, 'Key tensions / open questions')
+    expect(tensions).toEqual([
+      '• Safety risk with the mirrors',
+      '• Budget constraint: must stay portable',
+      '• Open question: should kids and adults share one slot?',
+    ])
+    const cited = tensions.map((line) => {
+      const start = summary.summaryText.indexOf(line)
+      const span = summary.spans.find((s) => s.start === start)
+      return summary.citations.find((c) => c.n === span?.citationNs[0])?.blockIds
+    })
+    expect(cited).toEqual([['T-1'], ['T-1'], ['T-2']])
+  })
+
+  it('keeps at most four tensions, each one whole', () => {
+    const claims = ['First risk', 'Second risk', 'Third risk', 'Fourth risk', 'Fifth risk']
+    const summary = summarizeSelection([note('T-1', claims.map((c) => `- ${c}`).join('\n'))])
+    expect(section(summary.summaryText, 'Key tensions / open questions')).toEqual(claims.slice(0, 4).map((c) => `• ${c}`))
+  })
+})
@@ -1,4 +1,10 @@
-import type { Block, Citation, SummarySpan, TextBlock, LinkBlock } from '../models/canvas'
+import type { Block, ChecklistBlock, Citation, DecisionBlock, ImageBlock, SummarySpan, TextBlock, LinkBlock } from '../models/canvas'
+import type { Relationship } from '../state/connectors'
+import { markdownSegments } from '../state/markdown'
+import { DECISION_STATUS_LABELS, describeDecision, sortDecisions } from '../state/decisions'
+import { describeChecklistItem, openItems } from '../state/checklists'
+import { linkTitle, pageDescriptionEvidence } from '../state/linkPreview'
+import { customTagsIn, hasManualTags, passageTags, wholeBlockTags } from '../state/tags'
 
 export type SummaryContent = {
   title: string
@@ -17,11 +23,18 @@ const truncateWords = (text: string, maxWords = 24) => {
   return `${words.slice(0, maxWords).join(' ')}…`
 }
 
-function splitCandidates(text: string): string[] {
-  const cleaned = text.replace(/\s+/g, ' ').trim()
-  if (!cleaned) return []
-  return cleaned.split(/(?<=[.!?])\s+|;|\n/).map((s) => s.trim()).filter(Boolean)
-}
+// Fallback classification for blocks nobody has tagged by hand.
+const TAG_PATTERNS: Array<[string, RegExp]> = [
+  ['decision', /decision|decided|choose|draft/i],
+  ['constraint', /constraint|must|require|cannot|limit|portable|modular|no\s+complete\s+darkness/i],
+  ['risk', /risk|concern|drop-off|fragile|safety/i],
+  ['question', /open question|question|uncertain|not sure|tension|how do|should/i],
+  ['audience', /audience|kids|adults|people/i],
+]
+
+const imageDescription = (b: ImageBlock) => normalize(b.caption ?? b.alt ?? '')
+
+const guessTags = (line: string) => TAG_PATTERNS.filter(([, pattern]) => pattern.test(line)).map(([tag]) => tag)
 
 function dedupe(lines: Bullet[]): Bullet[] {
   const seen = new Set<string>()
@@ -39,31 +52,76 @@ function pickTop(lines: Bullet[], limit: number): Bullet[] {
   return lines.slice(0, limit)
 }
 
-export function summarizeSelection(blocks: Block[]): SummaryContent {
+/** `relationships` are the connectors between the given blocks; each becomes a bullet citing both ends. */
+export function summarizeSelection(blocks: Block[], relationships: Relationship[] = []): SummaryContent {
   const evidenceBlockIds = blocks.map((b) => b.id)
   const textBlocks = blocks.filter((b): b is TextBlock => b.type === 'text')
   const linkBlocks = blocks.filter((b): b is LinkBlock => b.type === 'link')
+  // Images only count as evidence once someone has described them.
+  const imageBlocks = blocks.filter((b): b is ImageBlock => b.type === 'image' && Boolean(imageDescription(b)))
 
   const candidates: Array<{ text: string; blockId: string; tags: string[] }> = []
 
   const stripMetadata = (text: string) =>
     text.replace(/voice note transcription.*?:/gi, '').replace(/\b\d{1,2}\.\d{1,2}\.\d{2,4}\b/gi, '').trim()
 
+  // Candidates follow the note's Markdown structure: each list item is its own claim, paragraphs are
+  // split into sentences, and headings only serve to locate passages.
+  const segmentsOf = (text: string) =>
+    markdownSegments(text)
+      .map((segment) => ({ ...segment, text: normalize(stripMetadata(segment.text)) }))
+      .filter((segment) => segment.text)
+
+  // Manual tags replace the regex guesses for the whole block: a tagged passage stands in for the
+  // claims it overlaps, and the rest of the block only carries its block-level tags.
   textBlocks.forEach((b) => {
-    splitCandidates(stripMetadata(b.text)).forEach((line) => {
-      const lower = line.toLowerCase()
-      const tags: string[] = []
-      if (/decision|decided|choose|draft/i.test(lower)) tags.push('decision')
-      if (/constraint|must|require|cannot|limit|portable|modular|no\s+complete\s+darkness/i.test(lower)) tags.push('constraint')
-      if (/risk|concern|drop-off|fragile|safety/i.test(lower)) tags.push('risk')
-      if (/open question|question|uncertain|not sure|tension|how do|should/i.test(lower)) tags.push('question')
-      if (/audience|kids|adults|people/i.test(lower)) tags.push('audience')
-      candidates.push({ text: line, blockId: b.id, tags })
+    const wholeTags = wholeBlockTags(b)
+    const manual = hasManualTags(b)
+    let offset = 0
+    const segments = segmentsOf(b.text).map((segment) => {
+      const start = offset
+      offset += segment.text.length + 1
+      return { ...segment, start, end: start + segment.text.length }
+    })
+    const flattened = segments.map((segment) => segment.text).join(' ').toLowerCase()
+    const passages = passageTags(b).map((p) => {
+      const quote = segmentsOf(p.quote)
+        .map((segment) => segment.text)
+        .join(' ')
+      const start = quote ? flattened.indexOf(quote.toLowerCase()) : -1
+      return { ...p, quote: quote || normalize(p.quote), start, end: start + quote.length, used: false }
+    })
+    segments.forEach(({ text: line, claim, start, end }) => {
+      const overlapping = passages.filter((p) => p.start !== -1 && p.start < end && p.end > start)
+      if (overlapping.length) {
+        overlapping
+          .filter((p) => !p.used)
+          .forEach((p) => {
+            p.used = true
+            candidates.push({ text: p.quote, blockId: b.id, tags: Array.from(new Set([...wholeTags, ...p.tags])) })
+          })
+        return
+      }
+      if (!claim) return
+      candidates.push({ text: line, blockId: b.id, tags: manual ? wholeTags : guessTags(line) })
     })
+    passages
+      .filter((p) => !p.used)
+      .forEach((p) => candidates.push({ text: p.quote, blockId: b.id, tags: Array.from(new Set([...wholeTags, ...p.tags])) }))
   })
 
   linkBlocks.forEach((b) => {
-    candidates.push({ text: `${b.label} (${b.url})`, blockId: b.id, tags: ['reference'] })
+    const page = pageDescriptionEvidence(b)
+    candidates.push({
+      text: page ? `${linkTitle(b)} (${b.url}), ${page}` : `${linkTitle(b)} (${b.url})`,
+      blockId: b.id,
+      tags: hasManualTags(b) ? wholeBlockTags(b) : ['reference'],
+    })
+  })
+
+  imageBlocks.forEach((b) => {
+    const caption = imageDescription(b)
+    candidates.push({ text: `Image: ${caption}`, blockId: b.id, tags: hasManualTags(b) ? wholeBlockTags(b) : guessTags(caption) })
   })
 
   // Section 1: What this seems to be about
@@ -74,23 +132,33 @@ export function summarizeSelection(blocks: Block[]): SummaryContent {
     blockIds: [c.blockId],
   }))
 
-  // Section 2: Key tensions / open questions
-  const tensionCandidates = candidates.filter((c) => c.tags.some((t) => t === 'decision' || t === 'risk' || t === 'constraint' || t === 'question'))
-  const groupedTensions = tensionCandidates.length
-    ? [
+  // Decision records are taken as stated, never re-classified; superseded and rejected ones keep their label.
+  const decisionBlocks = sortDecisions(blocks.filter((b): b is DecisionBlock => b.type === 'decision'))
+  const decisionRecords: Bullet[] = decisionBlocks.map((b) => ({
+    section: 'Decisions on record',
+    text: truncateWords(describeDecision(b, { alternatives: false }), 28),
+    blockIds: [b.id],
+  }))
+
+  // Section 2: Key tensions / open questions. Each claim is its own bullet citing its own block.
+  const tensions: Bullet[] = candidates
+    .filter((c) => c.tags.some((t) => t === 'decision' || t === 'risk' || t === 'constraint' || t === 'question'))
+    .map((c) => ({ section: 'Key tensions / open questions', text: truncateWords(c.text, 28), blockIds: [c.blockId] }))
+
+  // Unticked checklist items are still open; ticked ones are settled and stay out of the summary.
+  const openActionItems: Bullet[] = blocks
+    .filter((b): b is ChecklistBlock => b.type === 'checklist')
+    .flatMap((b) => {
+      const open = openItems(b).filter((item) => item.text.trim())
+      if (!open.length) return []
+      return [
         {
           section: 'Key tensions / open questions',
-          text: truncateWords(
-            tensionCandidates
-              .slice(0, 4)
-              .map((c) => c.text)
-              .join('; '),
-            28
-          ),
-          blockIds: tensionCandidates.slice(0, 4).map((c) => c.blockId),
+          text: truncateWords(`Open action items in “${b.title}”: ${open.map(describeChecklistItem).join('; ')}`, 28),
+          blockIds: [b.id],
         },
       ]
-    : []
+    })
 
   // Section 3: Secondary considerations
   const audience = candidates.filter((c) => c.tags.includes('audience'))
@@ -111,23 +179,65 @@ export function summarizeSelection(blocks: Block[]): SummaryContent {
     })
   }
 
-  // Section 4: Best blocks to read next
+  customTagsIn([...textBlocks, ...linkBlocks, ...imageBlocks]).forEach((tag) => {
+    const tagged = candidates.filter((c) => c.tags.includes(tag))
+    if (!tagged.length) return
+    secondary.push({
+      section: 'Secondary considerations',
+      text: truncateWords(`${tag}: ${tagged.map((c) => c.text).join('; ')}`, 22),
+      blockIds: tagged.map((c) => c.blockId),
+    })
+  })
+
+  // Section 4: Relationships drawn between blocks
+  const blockName = (id: string) => {
+    const block = blocks.find((b) => b.id === id)
+    if (block?.type === 'text') return `“${truncateWords(stripMetadata(block.text), 8)}”`
+    if (block?.type === 'link') return linkTitle(block)
+    if (block?.type === 'decision') return `the ${DECISION_STATUS_LABELS[block.status].toLowerCase()} decision “${truncateWords(block.decision, 8)}”`
+    if (block?.type === 'image' && imageDescription(block)) return `the image “${truncateWords(imageDescription(block), 8)}”`
+    return id
+  }
+  const relationshipBullets: Bullet[] = relationships.map((r) => ({
+    section: 'How the pieces connect',
+    text: `${blockName(r.fromId)} ${r.label.trim() || 'relates to'} ${blockName(r.toId)}`,
+    blockIds: [r.fromId, r.toId],
+  }))
+
+  // Section 5: Best blocks to read next
+  const evidenceLabel = (b: Block) => {
+    if (b.type === 'text') return `${b.id}: primary notes`
+    if (b.type === 'decision') return `${b.id}: decision record (${b.status})`
+    if (b.type === 'checklist') return `${b.id}: checklist (${openItems(b).length} of ${b.items.length} open)`
+    if (b.type === 'image') return `${b.id}: image — ${truncateWords(imageDescription(b), 10)}`
+    return `${b.id}: reference link`
+  }
   const evidenceEntries: Bullet[] = blocks
-    .filter((b) => b.type === 'text' || b.type === 'link')
+    .filter(
+      (b) =>
+        b.type === 'text' ||
+        b.type === 'link' ||
+        b.type === 'decision' ||
+        b.type === 'checklist' ||
+        (b.type === 'image' && Boolean(imageDescription(b)))
+    )
     .slice(0, 3)
     .map((b) => ({
       section: 'Best blocks to read next',
-      text: b.type === 'text' ? `${b.id}: primary notes` : `${b.id}: reference link`,
+      text: evidenceLabel(b),
       blockIds: [b.id],
     }))
 
-  const allBullets = dedupe([...aboutText, ...groupedTensions, ...secondary, ...evidenceEntries])
+  // Open action items go ahead of the tensions so a long list of claims cannot push them out of the section.
+  const allBullets = dedupe([...aboutText, ...decisionRecords, ...openActionItems, ...tensions, ...secondary, ...relationshipBullets, ...evidenceEntries])
 
   // Build structured text by section order
   const sectionOrder = [
     'What this seems to be about',
+    'Decisions on record',
     'Key tensions / open questions',
     'Secondary considerations',
+    'How the pieces connect',
     'Best blocks to read next',
   ]
 
@@ -151,7 +261,7 @@ export function summarizeSelection(blocks: Block[]): SummaryContent {
     if (!lines.length) return
     orderedLines.push(`${section}:`)
     offset += `${section}:`.length + 1
-    pickTop(lines, section === 'Key tensions / decisions in progress' ? 4 : 3).forEach((b) => {
+    pickTop(lines, section === 'Decisions on record' ? 6 : section === 'Key tensions / open questions' ? 4 : 3).forEach((b) => {
       const line = `• ${b.text}`
       orderedLines.push(line)
       const citationNs = [ensureCitationNumber(b.blockIds)]
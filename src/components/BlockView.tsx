@@ -1,7 +1,16 @@
 import { useEffect, useRef, useState } from 'react'
 import type React from 'react'
-import type { MouseEvent, PointerEvent } from 'react'
+import type { KeyboardEvent, MouseEvent, PointerEvent } from 'react'
 import type { Block } from '../models/canvas'
+import type { ChecklistItem, DecisionStatus } from '../models/canvas'
+import { DECISION_STATUSES, IMAGE_CAPTION_HEIGHT, SEMANTIC_TAGS } from '../models/canvas'
+import { DECISION_STATUS_LABELS, decisionAttribution } from '../state/decisions'
+import { createChecklistItem, moveItem } from '../state/checklists'
+import { linkTitle } from '../state/linkPreview'
+import type { FrameSummaryStatus } from '../state/frames'
+import { addTag, isSemanticTag, normalizeTagName } from '../state/tags'
+import { toggleTask } from '../state/markdown'
+import { MarkdownView } from './MarkdownView'
 
 type BlockViewProps = {
   block: Block
@@ -10,7 +19,9 @@ type BlockViewProps = {
   dimmed?: boolean
   zoom: number
   onPositionChange: (id: string, x: number, y: number) => void
-  onUpdate: (id: string, updater: (block: Block) => Block) => void
+  onUpdate: (id: string, updater: (block: Block) => Block, options?: { record?: boolean }) => void
+  onGestureStart: (label: string) => void
+  onGestureEnd: () => void
   onSelect: (block: Block, mode: 'single' | 'toggle') => void
   onDelete: (id: string) => void
   lookupBlock: (id: string) => Block | undefined
@@ -20,10 +31,50 @@ type BlockViewProps = {
   onClearHighlight: () => void
   hasPinnedHighlight: boolean
   activeHighlightIds: string[]
+  /** Only passed for frames. */
+  frameStatus?: { memberCount: number; summary: FrameSummaryStatus }
+  onSummarizeFrame?: (id: string) => void
+  onOpenSummary?: (summaryId: string) => void
+  /** Asks the server for the page's title, description and image. */
+  onUnfurlLink?: (id: string, url: string, manual: boolean) => void
 }
 
 const DRAG_THRESHOLD = 6
 
+const hostnameOf = (url: string) => {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
+const CUSTOM_TAG_OPTION = '__custom__'
+
+const describeBlock = (block: Block) => {
+  switch (block.type) {
+    case 'text':
+      return `Text note ${block.id}`
+    case 'image':
+      return block.caption ? `Image ${block.id}: ${block.caption}` : `Image ${block.id}`
+    case 'link':
+      return `Link ${block.id}: ${block.label}`
+    case 'summary':
+      return `Summary ${block.id}: ${block.title}`
+    case 'summary_ref':
+      return `Summary card ${block.id}: ${block.title}`
+    case 'frame':
+      return `Area ${block.id}: ${block.title}`
+    case 'connector':
+      return `Connector ${block.fromId} to ${block.toId}`
+    case 'decision':
+      return `Decision ${block.id} (${block.status}): ${block.decision}`
+    case 'checklist': {
+      const done = block.items.filter((item) => item.done).length
+      return `Checklist ${block.id}: ${block.title}, ${done} of ${block.items.length} done`
+    }
+  }
+}
+
 export function BlockView({
   block,
   selected = false,
@@ -32,6 +83,8 @@ export function BlockView({
   zoom,
   onPositionChange,
   onUpdate,
+  onGestureStart,
+  onGestureEnd,
   onSelect,
   onDelete,
   lookupBlock,
@@ -41,6 +94,10 @@ export function BlockView({
   onClearHighlight,
   hasPinnedHighlight,
   activeHighlightIds,
+  frameStatus,
+  onSummarizeFrame,
+  onOpenSummary,
+  onUnfurlLink,
 }: BlockViewProps) {
   const pointerIdRef = useRef<number | null>(null)
   const resizePointerIdRef = useRef<number | null>(null)
@@ -48,9 +105,14 @@ export function BlockView({
   const startResizeRef = useRef<{ x: number; y: number; width: number; height: number } | null>(null)
   const startPositionRef = useRef<{ x: number; y: number } | null>(null)
   const startAnchorRef = useRef<HTMLAnchorElement | null>(null)
+  const rootRef = useRef<HTMLDivElement | null>(null)
   const metaRef = useRef<HTMLDivElement | null>(null)
   const textareaRef = useRef<HTMLTextAreaElement | null>(null)
+  const frameTitleRef = useRef<HTMLInputElement | null>(null)
   const summaryRefBodyRef = useRef<HTMLDivElement | null>(null)
+  const tagSelectRef = useRef<HTMLSelectElement | null>(null)
+  // Text selected in the textarea when focus moved straight to the tag picker; that passage gets the tag.
+  const pendingPassageRef = useRef<string | null>(null)
   const dragEnabledRef = useRef<boolean>(false)
   const hasDraggedRef = useRef(false)
   const previousUserSelectRef = useRef<string | null>(null)
@@ -59,10 +121,24 @@ export function BlockView({
   const [isEditingText, setIsEditingText] = useState(false)
   const [isEditingLink, setIsEditingLink] = useState(false)
   const [isEditingImage, setIsEditingImage] = useState(false)
+  const [isEditingDecision, setIsEditingDecision] = useState(false)
+  // A freshly added checklist item takes focus as it mounts.
+  const [focusItemId, setFocusItemId] = useState<string | null>(null)
   const [imageError, setImageError] = useState(false)
   const linkDraft = useRef<{ label: string; url: string }>({ label: block.type === 'link' ? block.label : '', url: block.type === 'link' ? block.url : '' })
-  const imageDraft = useRef<{ src: string }>({
+  const imageDraft = useRef<{ src: string; caption: string; alt: string }>({
     src: block.type === 'image' ? block.src : '',
+    caption: block.type === 'image' ? block.caption ?? '' : '',
+    alt: block.type === 'image' ? block.alt ?? '' : '',
+  })
+
+  const decisionDraft = useRef({
+    decision: '',
+    status: 'proposed' as DecisionStatus,
+    rationale: '',
+    date: '',
+    owner: '',
+    alternatives: '',
   })
 
   const disableSelection = () => {
@@ -79,6 +155,25 @@ export function BlockView({
     }
   }
 
+  const handleAddTag = (value: string) => {
+    const passage = pendingPassageRef.current
+    pendingPassageRef.current = null
+    const raw =
+      value === CUSTOM_TAG_OPTION
+        ? window.prompt(passage ? `Custom tag for “${passage.slice(0, 60)}”` : `Custom tag for ${block.id}`)
+        : value
+    const tag = normalizeTagName(raw ?? '')
+    if (!tag) return
+    onUpdate(block.id, (current) => ({ ...current, tags: addTag(current.tags, passage ? { tag, quote: passage } : { tag }) }))
+  }
+
+  const handleRemoveTag = (index: number) => {
+    onUpdate(block.id, (current) => {
+      const tags = (current.tags ?? []).filter((_, idx) => idx !== index)
+      return { ...current, tags: tags.length ? tags : undefined }
+    })
+  }
+
   const getImageHeight = (imageBlock: Extract<Block, { type: 'image' }>) => {
     const ratio =
       imageBlock.aspectRatio ??
@@ -103,6 +198,7 @@ export function BlockView({
     setIsDragging(dragEnabledRef.current)
     if (dragEnabledRef.current) {
       disableSelection()
+      onGestureStart('Move block')
       event.currentTarget.setPointerCapture(event.pointerId)
     }
   }
@@ -135,6 +231,7 @@ export function BlockView({
           (block.type === 'text' && textareaRef.current ? textareaRef.current.scrollHeight + 34 : 120)
     startResizeRef.current = { x: event.clientX, y: event.clientY, width: block.width, height: baseHeight }
     setIsResizing(true)
+    onGestureStart('Resize block')
     disableSelection()
     event.currentTarget.setPointerCapture(event.pointerId)
   }
@@ -173,6 +270,7 @@ export function BlockView({
     startResizeRef.current = null
     setIsResizing(false)
     restoreSelection()
+    onGestureEnd()
   }
 
   const endDrag = (event: PointerEvent<HTMLDivElement>) => {
@@ -186,6 +284,7 @@ export function BlockView({
     if (startAnchorRef.current && !hasDraggedRef.current) {
       startAnchorRef.current.click()
     }
+    if (dragEnabledRef.current) onGestureEnd()
     pointerIdRef.current = null
     startPointerRef.current = null
     startPositionRef.current = null
@@ -218,6 +317,96 @@ export function BlockView({
     restoreSelection()
   }
 
+  const startEditingDecision = () => {
+    if (block.type !== 'decision') return
+    decisionDraft.current = {
+      decision: block.decision,
+      status: block.status,
+      rationale: block.rationale,
+      date: block.date,
+      owner: block.owner,
+      alternatives: block.alternatives.join('\n'),
+    }
+    setIsEditingDecision(true)
+  }
+
+  /** Enter on a focused block: the keyboard equivalent of clicking into it. */
+  const startEditing = () => {
+    switch (block.type) {
+      case 'text':
+        setIsEditingText(true)
+        break
+      case 'image':
+        imageDraft.current = { src: block.src, caption: block.caption ?? '', alt: block.alt ?? '' }
+        setIsEditingImage(true)
+        break
+      case 'link':
+        linkDraft.current = { label: block.label, url: block.url }
+        setIsEditingLink(true)
+        break
+      case 'summary_ref':
+        onSelect(block, 'single')
+        break
+      case 'summary':
+        rootRef.current?.querySelector<HTMLElement>('.block-summary button')?.focus()
+        break
+      case 'frame':
+        frameTitleRef.current?.focus()
+        break
+      case 'decision':
+        startEditingDecision()
+        break
+      case 'checklist':
+        rootRef.current?.querySelector<HTMLElement>('.checklist-item-text')?.focus()
+        break
+    }
+  }
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLDivElement>) => {
+    if (event.target !== event.currentTarget || event.key !== 'Enter') return
+    event.preventDefault()
+    startEditing()
+  }
+
+  /** Escape inside an editor leaves it and puts focus back on the block. */
+  const handleEditorKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.key !== 'Escape') return
+    event.stopPropagation()
+    setIsEditingImage(false)
+    setIsEditingLink(false)
+    setIsEditingText(false)
+    setIsEditingDecision(false)
+    rootRef.current?.focus()
+  }
+
+  const updateItems = (updater: (items: ChecklistItem[]) => ChecklistItem[]) =>
+    onUpdate(block.id, (current) => (current.type === 'checklist' ? { ...current, items: updater(current.items) } : current))
+
+  const updateItem = (id: string, patch: Partial<ChecklistItem>) =>
+    updateItems((items) => items.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+
+  const insertItem = (index: number) => {
+    const item = createChecklistItem({ text: '', done: false })
+    updateItems((items) => [...items.slice(0, index), item, ...items.slice(index)])
+    setFocusItemId(item.id)
+  }
+
+  /** Enter adds an item below, Alt+Up/Down reorders, Backspace on an empty item removes it. */
+  const handleItemKeyDown = (event: KeyboardEvent<HTMLInputElement>, item: ChecklistItem, index: number) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      insertItem(index + 1)
+    } else if (event.altKey && (event.key === 'ArrowUp' || event.key === 'ArrowDown')) {
+      event.preventDefault()
+      updateItems((items) => moveItem(items, index, event.key === 'ArrowUp' ? -1 : 1))
+    } else if (event.key === 'Backspace' && !item.text) {
+      event.preventDefault()
+      updateItems((items) => items.filter((i) => i.id !== item.id))
+    } else {
+      handleEditorKeyDown(event)
+    }
+  }
+
   const handleLinkClick = (event: MouseEvent<HTMLAnchorElement>) => {
     if (hasDraggedRef.current) {
       event.preventDefault()
@@ -235,11 +424,15 @@ export function BlockView({
     const paddingY = 24 // block padding top+bottom (12px each)
     const gapBetweenMetaAndContent = 10
     const newHeight = paddingY + metaHeight + gapBetweenMetaAndContent + scrollHeight
-    onUpdate(block.id, (current) => {
-      if (current.type !== 'text') return current
-      if (current.height && Math.abs(current.height - newHeight) < 1) return current
-      return { ...current, height: newHeight }
-    })
+    onUpdate(
+      block.id,
+      (current) => {
+        if (current.type !== 'text') return current
+        if (current.height && Math.abs(current.height - newHeight) < 1) return current
+        return { ...current, height: newHeight }
+      },
+      { record: false }
+    )
   }
 
   const handleImageLoad = (event: React.SyntheticEvent<HTMLImageElement>) => {
@@ -247,10 +440,17 @@ export function BlockView({
     const img = event.currentTarget
     if (img.naturalWidth > 0 && img.naturalHeight > 0) {
       const ratio = img.naturalHeight / img.naturalWidth
-      onUpdate(block.id, (current) => {
-        if (current.type !== 'image') return current
-        return { ...current, aspectRatio: ratio, height: undefined }
-      })
+      onUpdate(
+        block.id,
+        (current) => {
+          if (current.type !== 'image') return current
+          if (current.aspectRatio && Math.abs(current.aspectRatio - ratio) < 0.001 && current.height === undefined) {
+            return current
+          }
+          return { ...current, aspectRatio: ratio, height: undefined }
+        },
+        { record: false }
+      )
     }
   }
 
@@ -262,7 +462,7 @@ export function BlockView({
   useEffect(() => {
     adjustTextareaSize()
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [block.type === 'text' ? block.text : null])
+  }, [block.type === 'text' ? block.text : null, isEditingText])
 
   useEffect(() => {
     if (block.type !== 'summary_ref') return
@@ -273,10 +473,14 @@ export function BlockView({
     const padding = 24
     const desiredHeight = Math.max(260, Math.min(720, contentHeight + headerHeight + padding))
     if (!block.height || Math.abs(block.height - desiredHeight) > 4) {
-      onUpdate(block.id, (current) => {
-        if (current.type !== 'summary_ref') return current
-        return { ...current, height: desiredHeight }
-      })
+      onUpdate(
+        block.id,
+        (current) => {
+          if (current.type !== 'summary_ref') return current
+          return { ...current, height: desiredHeight }
+        },
+        { record: false }
+      )
     }
   }, [block.type === 'summary_ref' ? block.summaryText ?? block.preview : null])
 
@@ -354,6 +558,9 @@ export function BlockView({
                         className={`citation-chip ${isActive ? 'active' : ''}`}
                         onMouseEnter={() => onCitationHover(c.blockIds)}
                         onMouseLeave={onCitationLeave}
+                        onFocus={() => onCitationHover(c.blockIds)}
+                        onBlur={onCitationLeave}
+                        aria-label={`Show sources for citation ${c.n}`}
                         onClick={(e) => {
                           e.stopPropagation()
                           onCitationClick(c.blockIds)
@@ -389,6 +596,8 @@ export function BlockView({
                   className={`summary-source-row ${isActive ? 'active' : ''}`}
                   onMouseEnter={() => onCitationHover(c.blockIds)}
                   onMouseLeave={onCitationLeave}
+                  onFocus={() => onCitationHover(c.blockIds)}
+                  onBlur={onCitationLeave}
                   onClick={(e) => {
                     e.stopPropagation()
                     onCitationClick(c.blockIds)
@@ -420,7 +629,7 @@ export function BlockView({
 
   const renderedHeight =
     block.type === 'image'
-      ? getImageHeight(block)
+      ? getImageHeight(block) + (block.caption ? IMAGE_CAPTION_HEIGHT : 0)
       : block.height
 
   const style: React.CSSProperties = {
@@ -433,8 +642,15 @@ export function BlockView({
 
   return (
     <div
-      className={`block block-${block.type} ${isDragging ? 'dragging' : ''} ${isResizing ? 'resizing' : ''} ${selected ? 'selected' : ''} ${highlight ? 'highlight' : ''} ${dimmed ? 'dimmed' : ''} ${(isEditingText || isEditingLink || isEditingImage) ? 'editing' : ''}`}
+      className={`block block-${block.type} ${isDragging ? 'dragging' : ''} ${isResizing ? 'resizing' : ''} ${selected ? 'selected' : ''} ${highlight ? 'highlight' : ''} ${dimmed ? 'dimmed' : ''} ${(isEditingText || isEditingLink || isEditingImage || isEditingDecision) ? 'editing' : ''}`}
       style={style}
+      ref={rootRef}
+      tabIndex={0}
+      role="group"
+      aria-roledescription="block"
+      aria-label={`${describeBlock(block)}${selected ? ', selected' : ''}`}
+      data-block-id={block.id}
+      onKeyDown={handleKeyDown}
       onPointerDown={handlePointerDown}
       onPointerMove={handlePointerMove}
       onPointerUp={handlePointerUp}
@@ -445,8 +661,31 @@ export function BlockView({
           <span className="block-type">{block.type}</span>
           <span className="block-id">{block.id}</span>
         </div>
+        {block.type !== 'summary' && (
+          <select
+            ref={tagSelectRef}
+            className="block-tag-add"
+            value=""
+            aria-label={`Tag ${block.id}`}
+            title={block.type === 'text' ? 'Tag this block, or select text first to tag just that passage' : 'Tag this block'}
+            onPointerDown={(e) => e.stopPropagation()}
+            onBlur={() => (pendingPassageRef.current = null)}
+            onChange={(e) => handleAddTag(e.target.value)}
+          >
+            <option value="" disabled>
+              + Tag
+            </option>
+            {SEMANTIC_TAGS.map((tag) => (
+              <option key={tag} value={tag}>
+                {tag}
+              </option>
+            ))}
+            <option value={CUSTOM_TAG_OPTION}>Custom…</option>
+          </select>
+        )}
         <button
           className="block-delete"
+          aria-label={`Delete ${block.id}`}
           onClick={handleDeleteClick}
           onPointerDown={(e) => e.stopPropagation()}
         >
@@ -454,11 +693,65 @@ export function BlockView({
         </button>
       </div>
 
-      {block.type === 'text' && (
+      {block.tags && block.tags.length > 0 && (
+        <div className="block-tags">
+          {block.tags.map((t, idx) => (
+            <span
+              key={`${t.tag}|${t.quote ?? ''}`}
+              className={`tag-chip ${isSemanticTag(t.tag) ? `tag-${t.tag}` : 'tag-custom'}`}
+              title={t.quote ? `“${t.quote}”` : 'Whole block'}
+            >
+              {t.tag}
+              {t.quote && <span className="tag-chip-quote">“{t.quote.length > 24 ? `${t.quote.slice(0, 24)}…` : t.quote}”</span>}
+              <button
+                className="tag-chip-remove"
+                aria-label={`Remove tag ${t.tag}${t.quote ? ` from “${t.quote}”` : ''}`}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  handleRemoveTag(idx)
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {block.type === 'text' && !isEditingText && (
+        // Rendered Markdown until clicked; the source is only shown while editing.
+        <div className="block-markdown" onClick={() => setIsEditingText(true)}>
+          {block.text.trim() ? (
+            <MarkdownView
+              source={block.text}
+              onToggleTask={(line) =>
+                onUpdate(block.id, (current) =>
+                  current.type === 'text' ? { ...current, text: toggleTask(current.text, line) } : current
+                )
+              }
+            />
+          ) : (
+            <p className="block-markdown-empty">Empty note. Click to write.</p>
+          )}
+        </div>
+      )}
+
+      {block.type === 'text' && isEditingText && (
         <textarea
           className="block-textarea"
+          autoFocus
           onFocus={() => setIsEditingText(true)}
-          onBlur={() => setIsEditingText(false)}
+          onBlur={(e) => {
+            setIsEditingText(false)
+            const { selectionStart, selectionEnd, value } = e.currentTarget
+            pendingPassageRef.current =
+              e.relatedTarget === tagSelectRef.current && selectionEnd > selectionStart
+                ? value.slice(selectionStart, selectionEnd).trim() || null
+                : null
+          }}
+          onKeyDown={handleEditorKeyDown}
+          aria-label={`Text of ${block.id}`}
           value={block.text}
           ref={textareaRef}
           onChange={(e) => {
@@ -485,15 +778,25 @@ export function BlockView({
           {!isEditingImage && (
             <>
               {!imageError ? (
-                <img src={block.src} alt={block.id} onError={() => setImageError(true)} onLoad={handleImageLoad} />
+                <img
+                  src={block.src}
+                  alt={block.alt ?? block.caption ?? ''}
+                  onError={() => setImageError(true)}
+                  onLoad={handleImageLoad}
+                />
               ) : (
                 <div className="block-image-placeholder">Image failed to load</div>
               )}
+              {block.caption && (
+                <p className="block-caption" title={block.caption}>
+                  {block.caption}
+                </p>
+              )}
               <button
                 className="block-edit"
                 onClick={(e) => {
                   e.stopPropagation()
-                  imageDraft.current = { src: block.src }
+                  imageDraft.current = { src: block.src, caption: block.caption ?? '', alt: block.alt ?? '' }
                   setIsEditingImage(true)
                 }}
                 onPointerDown={(e) => e.stopPropagation()}
@@ -503,15 +806,34 @@ export function BlockView({
             </>
           )}
           {isEditingImage && (
-            <div className="block-edit-form">
+            <div className="block-edit-form" onKeyDown={handleEditorKeyDown}>
               <label>
                 Image URL
                 <input
                   type="text"
+                  autoFocus
                   defaultValue={block.src}
                   onChange={(e) => (imageDraft.current.src = e.target.value)}
                 />
               </label>
+              <label>
+                Caption
+                <input
+                  type="text"
+                  defaultValue={block.caption ?? ''}
+                  placeholder="What the image shows and why it is here"
+                  onChange={(e) => (imageDraft.current.caption = e.target.value)}
+                />
+              </label>
+              <label>
+                Alt text
+                <input
+                  type="text"
+                  defaultValue={block.alt ?? ''}
+                  placeholder="Describe the image for screen readers"
+                  onChange={(e) => (imageDraft.current.alt = e.target.value)}
+                />
+              </label>
               <button
                 onClick={(e) => {
                   e.stopPropagation()
@@ -520,10 +842,13 @@ export function BlockView({
                     return {
                       ...current,
                       src: imageDraft.current.src || current.src,
+                      caption: imageDraft.current.caption.trim() || undefined,
+                      alt: imageDraft.current.alt.trim() || undefined,
                     }
                   })
                   setImageError(false)
                   setIsEditingImage(false)
+                  rootRef.current?.focus()
                 }}
               >
                 Done
@@ -538,8 +863,31 @@ export function BlockView({
           {!isEditingLink ? (
             <>
               <a className="block-link" href={block.url} target="_blank" rel="noreferrer" onClick={handleLinkClick}>
-                {block.label}
+                {linkTitle(block)}
               </a>
+              {block.preview && (
+                <div className="link-preview">
+                  {block.preview.image && (
+                    <img className="link-preview-image" src={block.preview.image} alt="" loading="lazy" draggable={false} />
+                  )}
+                  {block.preview.description && <p className="link-preview-description">{block.preview.description}</p>}
+                  <span className="link-preview-site">
+                    From {block.preview.siteName || hostnameOf(block.url)}
+                  </span>
+                </div>
+              )}
+              {!block.preview && onUnfurlLink && (
+                <button
+                  className="block-edit"
+                  onClick={(e) => {
+                    e.stopPropagation()
+                    onUnfurlLink(block.id, block.url, true)
+                  }}
+                  onPointerDown={(e) => e.stopPropagation()}
+                >
+                  Load preview
+                </button>
+              )}
               <button
                 className="block-edit"
                 onClick={(e) => {
@@ -553,11 +901,12 @@ export function BlockView({
               </button>
             </>
           ) : (
-            <div className="block-edit-form">
+            <div className="block-edit-form" onKeyDown={handleEditorKeyDown}>
               <label>
                 Label
                 <input
                   type="text"
+                  autoFocus
                   defaultValue={block.label}
                   onChange={(e) => (linkDraft.current.label = e.target.value)}
                 />
@@ -573,15 +922,20 @@ export function BlockView({
               <button
                 onClick={(e) => {
                   e.stopPropagation()
+                  const url = linkDraft.current.url || block.url
                   onUpdate(block.id, (current) => {
                     if (current.type !== 'link') return current
                     return {
                       ...current,
                       label: linkDraft.current.label || current.label,
-                      url: linkDraft.current.url || current.url,
+                      url,
+                      // A preview describes the old page once the URL changes.
+                      preview: url === current.url ? current.preview : undefined,
                     }
                   })
+                  if (url !== block.url) onUnfurlLink?.(block.id, url, false)
                   setIsEditingLink(false)
+                  rootRef.current?.focus()
                 }}
               >
                 Done
@@ -591,6 +945,219 @@ export function BlockView({
         </div>
       )}
 
+      {block.type === 'decision' && (
+        <div className={`decision-card decision-${block.status}`}>
+          {!isEditingDecision ? (
+            <>
+              <div className="decision-header">
+                <span className={`decision-status decision-status-${block.status}`}>
+                  {DECISION_STATUS_LABELS[block.status]}
+                </span>
+                {decisionAttribution(block) && <span className="decision-attribution">{decisionAttribution(block)}</span>}
+              </div>
+              <p className="decision-text">{block.decision || 'Untitled decision'}</p>
+              {block.rationale && (
+                <p className="decision-rationale">
+                  <span className="decision-label">Why</span>
+                  {block.rationale}
+                </p>
+              )}
+              {block.alternatives.length > 0 && (
+                <div className="decision-alternatives">
+                  <span className="decision-label">Alternatives considered</span>
+                  <ul>
+                    {block.alternatives.map((alt, idx) => (
+                      <li key={idx}>{alt}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              <button
+                className="block-edit"
+                onClick={(e) => {
+                  e.stopPropagation()
+                  startEditingDecision()
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+              >
+                Edit
+              </button>
+            </>
+          ) : (
+            <div className="block-edit-form" onKeyDown={handleEditorKeyDown} onPointerDown={(e) => e.stopPropagation()}>
+              <label>
+                Decision
+                <textarea
+                  autoFocus
+                  rows={2}
+                  defaultValue={block.decision}
+                  onChange={(e) => (decisionDraft.current.decision = e.target.value)}
+                />
+              </label>
+              <label>
+                Status
+                <select
+                  defaultValue={block.status}
+                  onChange={(e) => (decisionDraft.current.status = e.target.value as DecisionStatus)}
+                >
+                  {DECISION_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      {DECISION_STATUS_LABELS[status]}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                Rationale
+                <textarea
+                  rows={3}
+                  defaultValue={block.rationale}
+                  onChange={(e) => (decisionDraft.current.rationale = e.target.value)}
+                />
+              </label>
+              <div className="decision-form-row">
+                <label>
+                  Date
+                  <input type="date" defaultValue={block.date} onChange={(e) => (decisionDraft.current.date = e.target.value)} />
+                </label>
+                <label>
+                  Owner
+                  <input type="text" defaultValue={block.owner} onChange={(e) => (decisionDraft.current.owner = e.target.value)} />
+                </label>
+              </div>
+              <label>
+                Alternatives considered (one per line)
+                <textarea
+                  rows={3}
+                  defaultValue={block.alternatives.join('\n')}
+                  onChange={(e) => (decisionDraft.current.alternatives = e.target.value)}
+                />
+              </label>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation()
+                  const draft = decisionDraft.current
+                  onUpdate(block.id, (current) => {
+                    if (current.type !== 'decision') return current
+                    return {
+                      ...current,
+                      decision: draft.decision.trim() || current.decision,
+                      status: draft.status,
+                      rationale: draft.rationale.trim(),
+                      date: draft.date,
+                      owner: draft.owner.trim(),
+                      alternatives: draft.alternatives
+                        .split('\n')
+                        .map((alt) => alt.trim())
+                        .filter(Boolean),
+                    }
+                  })
+                  setIsEditingDecision(false)
+                  rootRef.current?.focus()
+                }}
+              >
+                Done
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {block.type === 'checklist' && (
+        <div className="checklist" onPointerDown={(e) => e.stopPropagation()}>
+          <input
+            className="checklist-title"
+            value={block.title}
+            aria-label={`Title of checklist ${block.id}`}
+            onKeyDown={handleEditorKeyDown}
+            onChange={(e) =>
+              onUpdate(block.id, (current) => (current.type === 'checklist' ? { ...current, title: e.target.value } : current))
+            }
+          />
+          <span className="checklist-progress">
+            {block.items.filter((item) => item.done).length} of {block.items.length} done
+          </span>
+          <ul className="checklist-items">
+            {block.items.map((item, index) => {
+              const source = item.sourceBlockId ? lookupBlock(item.sourceBlockId) : undefined
+              return (
+                <li key={item.id} className={`checklist-item ${item.done ? 'done' : ''}`}>
+                  <input
+                    type="checkbox"
+                    checked={item.done}
+                    aria-label={`Mark “${item.text || 'item'}” as ${item.done ? 'not done' : 'done'}`}
+                    onChange={() => updateItem(item.id, { done: !item.done })}
+                  />
+                  <input
+                    className="checklist-item-text"
+                    value={item.text}
+                    placeholder="Action item"
+                    autoFocus={item.id === focusItemId}
+                    aria-label={`Item ${index + 1}`}
+                    onKeyDown={(e) => handleItemKeyDown(e, item, index)}
+                    onChange={(e) => updateItem(item.id, { text: e.target.value })}
+                  />
+                  <div className="checklist-item-details">
+                    <input
+                      className="checklist-assignee"
+                      value={item.assignee ?? ''}
+                      placeholder="Assignee"
+                      aria-label={`Assignee for item ${index + 1}`}
+                      onKeyDown={handleEditorKeyDown}
+                      onChange={(e) => updateItem(item.id, { assignee: e.target.value || undefined })}
+                    />
+                    <input
+                      type="date"
+                      className="checklist-due"
+                      value={item.due ?? ''}
+                      aria-label={`Due date for item ${index + 1}`}
+                      onKeyDown={handleEditorKeyDown}
+                      onChange={(e) => updateItem(item.id, { due: e.target.value || undefined })}
+                    />
+                    {item.sourceBlockId && (
+                      <button
+                        className="checklist-source"
+                        disabled={!source}
+                        title={source ? 'Show the note this item came from' : 'The source note is no longer on the canvas'}
+                        onClick={() => item.sourceBlockId && onCitationClick([item.sourceBlockId])}
+                      >
+                        from {item.sourceBlockId}
+                      </button>
+                    )}
+                    <button
+                      className="checklist-btn"
+                      disabled={index === 0}
+                      aria-label={`Move item ${index + 1} up`}
+                      onClick={() => updateItems((items) => moveItem(items, index, -1))}
+                    >
+                      ↑
+                    </button>
+                    <button
+                      className="checklist-btn"
+                      disabled={index === block.items.length - 1}
+                      aria-label={`Move item ${index + 1} down`}
+                      onClick={() => updateItems((items) => moveItem(items, index, 1))}
+                    >
+                      ↓
+                    </button>
+                    <button
+                      className="checklist-btn"
+                      aria-label={`Remove item ${index + 1}`}
+                      onClick={() => updateItems((items) => items.filter((i) => i.id !== item.id))}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+          <button className="checklist-add" onClick={() => insertItem(block.items.length)}>
+            + Add item
+          </button>
+        </div>
+      )}
+
       {block.type === 'summary_ref' && (
         <div className="summary-ref-card">
           <div className="summary-ref-header">
@@ -615,7 +1182,54 @@ export function BlockView({
               </p>
             ))}
           </div>
-          <p className="summary-ref-hint">Click to highlight sources</p>
+          <p className="summary-ref-hint">Click or press Enter to reopen the summary and highlight its sources</p>
+        </div>
+      )}
+
+      {block.type === 'frame' && (
+        <div className="frame-header">
+          <input
+            className="frame-title"
+            ref={frameTitleRef}
+            value={block.title}
+            aria-label={`Name of area ${block.id}`}
+            onKeyDown={handleEditorKeyDown}
+            onPointerDown={(e) => e.stopPropagation()}
+            onChange={(e) =>
+              onUpdate(block.id, (current) => (current.type === 'frame' ? { ...current, title: e.target.value } : current))
+            }
+          />
+          {frameStatus && (
+            <span className={`frame-status ${frameStatus.summary}`}>
+              {frameStatus.memberCount} block{frameStatus.memberCount === 1 ? '' : 's'}
+              {frameStatus.summary === 'current' && ' · summary up to date'}
+              {frameStatus.summary === 'stale' && ' · summary out of date'}
+            </span>
+          )}
+          {block.summaryId && onOpenSummary && (
+            <button
+              className="frame-action"
+              onClick={(e) => {
+                e.stopPropagation()
+                if (block.summaryId) onOpenSummary(block.summaryId)
+              }}
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              Open summary
+            </button>
+          )}
+          {onSummarizeFrame && (
+            <button
+              className="frame-action primary"
+              onClick={(e) => {
+                e.stopPropagation()
+                onSummarizeFrame(block.id)
+              }}
+              onPointerDown={(e) => e.stopPropagation()}
+            >
+              {frameStatus?.summary === 'stale' ? 'Update summary' : 'Summarize this area'}
+            </button>
+          )}
         </div>
       )}
 
@@ -661,6 +1275,7 @@ export function BlockView({
 
       <div
         className="block-resize-handle"
+        aria-hidden="true"
         onPointerDown={handleResizePointerDown}
         onPointerMove={handleResizePointerMove}
         onPointerUp={handleResizePointerUp}
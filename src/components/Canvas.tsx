@@ -1,55 +1,134 @@
-import { useEffect, useRef, useState, useMemo } from 'react'
+import { useEffect, useLayoutEffect, useRef, useState, useMemo } from 'react'
 import type React from 'react'
-import type { PointerEvent as ReactPointerEvent } from 'react'
-import type { Block, SummaryBlock, SummarySpan } from '../models/canvas'
-import { createId, seedBlocks } from '../models/canvas'
+import type { DragEvent, PointerEvent as ReactPointerEvent } from 'react'
+import type {
+  Block,
+  CanvasSummaryData,
+  ChecklistBlock,
+  ConnectorBlock,
+  DecisionBlock,
+  FrameBlock,
+  SummaryBlock,
+  SummaryProvider,
+  SummarySpan,
+  TextBlock,
+} from '../models/canvas'
+import { createId, IMAGE_CAPTION_HEIGHT, isConnector, seedBlocks } from '../models/canvas'
 import { summarizeSelection } from '../ai/summarize'
 import { BlockView } from './BlockView'
-import { loadState, loadZoom, saveState, saveZoom, STORAGE_KEY } from '../state/persistence'
-
-const CANVAS_WIDTH = 2600
-const CANVAS_HEIGHT = 1800
+import { StorageIndicator } from './StorageIndicator'
+import { ImportDialog } from './ImportDialog'
+import { Minimap } from './Minimap'
+import { SearchPanel } from './SearchPanel'
+import { SummaryVersions } from './SummaryVersions'
+import {
+  acknowledgeRemoteChanges,
+  clearCanvasData,
+  createStateSaver,
+  getStorageUsage,
+  loadHistory,
+  loadPanelSummary,
+  loadSummaries,
+  loadZoom,
+  saveHistory,
+  savePanelSummary,
+  saveSummaries,
+  saveZoom,
+} from '../state/persistence'
+import type { LoadResult, SaveResult, SummaryStore } from '../state/persistence'
+import type { StorageEstimate } from '../state/blockStore'
+import { applyCommand, createCommand, pushCommand } from '../state/history'
+import type { HistoryState } from '../state/history'
+import { bundleFileName, createBundle, parseBundle, remapBundleIds } from '../state/bundle'
+import {
+  blocksToPlainText,
+  CLIPBOARD_MIME,
+  createClipboardBundle,
+  measureImageAspect,
+  readClipboardContent,
+  readFileAsDataUrl,
+} from '../state/clipboard'
+import { estimateTextHeight, gridLayout, readDroppedFiles } from '../state/fileDrop'
+import { frameMembers, frameScope, frameSummaryStatus } from '../state/frames'
+import {
+  connectorGeometry,
+  danglingConnectors,
+  describeRelationship,
+  RELATIONSHIP_SUGGESTIONS,
+  relationshipsWithin,
+} from '../state/connectors'
+import { alignRects, distributeRects, SNAP_GRID, snapRect, tidyRects } from '../state/layout'
+import type { AlignMode, LayoutRect, SnapGuide } from '../state/layout'
+import { searchBlocks } from '../state/search'
+import { fetchLinkPreview, linkCardHeight, linkTitle, pageDescriptionEvidence } from '../state/linkPreview'
+import { customTagsIn, hasManualTags, taggedContent } from '../state/tags'
+import { describeDecision, sortDecisions } from '../state/decisions'
+import { checklistHeight, checklistToText, createChecklistItem, describeChecklistItem, extractActionItems, openItems } from '../state/checklists'
+import type { SearchResult } from '../state/search'
+import type { CanvasBundle } from '../state/bundle'
+import { buildHandover, handoverFileName, handoverToHtml, handoverToMarkdown } from '../state/handover'
+import { validateBlocks, validateCanvasSummary } from '../state/validation'
+import { createCanvasSync, mergeRemoteChanges, stampChangedBlocks } from '../state/sync'
+import type { CanvasSync, SyncMessage } from '../state/sync'
+import { contentVersion, pruneSummaryVersions, summaryVersions } from '../state/summaryVersions'
+
+// The board has no fixed size: it spans the content (and wherever the view has been panned to) plus this margin,
+// snapped to a coarse grid so the origin only moves occasionally.
+const WORLD_MARGIN = 1600
+const WORLD_GRID = 400
 const MIN_ZOOM = 0.4
 const MAX_ZOOM = 1.4
-type Tool = 'select' | 'text' | 'image' | 'link'
-
-type CanvasSummaryData = {
-  id: string
-  title: string
-  totalBlocks: number
-  sections: Record<string, string>
-  evidence: string[]
-  summaryText: string
-  scope: { kind: 'canvas'; blockIds: string[] }
-  qa: Array<{
-    id: string
-    question: string
-    answer: string
-    citations: { n: number; blockIds: string[] }[]
-    createdAt: number
-  }>
-  messages: Array<
-    | { id: string; role: 'user'; text: string; createdAt: number }
-    | { id: string; role: 'assistant'; text: string; citations: { n: number; blockIds: string[] }[]; createdAt: number }
-  >
-  citations?: { n: number; blockIds: string[] }[]
-  spans?: SummarySpan[]
+const VIEW_ANIMATION_MS = 320
+// Screen pixels within which a dragged edge or centre snaps to another block's.
+const SNAP_THRESHOLD = 6
+const ALIGN_ACTIONS: Array<{ mode: AlignMode; label: string; icon: string }> = [
+  { mode: 'left', label: 'Align left', icon: '⇤' },
+  { mode: 'center', label: 'Align centres', icon: '↔' },
+  { mode: 'right', label: 'Align right', icon: '⇥' },
+  { mode: 'top', label: 'Align top', icon: '⤒' },
+  { mode: 'middle', label: 'Align middles', icon: '↕' },
+  { mode: 'bottom', label: 'Align bottom', icon: '⤓' },
+]
+type Tool = 'select' | 'text' | 'image' | 'link' | 'decision' | 'checklist' | 'frame' | 'connect'
+type Bounds = { minX: number; minY: number; maxX: number; maxY: number }
+
+const NUDGE_STEP = 10
+const NUDGE_STEP_LARGE = 50
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+  ArrowLeft: [-1, 0],
+  ArrowRight: [1, 0],
+  ArrowUp: [0, -1],
+  ArrowDown: [0, 1],
 }
+// Blocks whose tops are within one row of each other are read left to right.
+const READING_ROW = 80
 
 const SUMMARY_PANEL_MIN_WIDTH = 280
 const SUMMARY_PANEL_MAX_WIDTH = 720
-const PANEL_CANVAS_KEY = 'recap-canvas:panel-canvas-summary'
-const PANEL_SELECTION_KEY = 'recap-canvas:panel-selection-summary'
 const PASTEL_COLORS = ['#f6d9d5', '#ffe8b3', '#dff5c8', '#cde8ff', '#e6d8ff', '#f8d9ef', '#d8f0f4', '#f2e6d8']
 
-export function Canvas() {
-  const initialBlocksRef = useRef<Block[] | null>(null)
+const downloadFile = (fileName: string, content: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }))
+  const anchor = document.createElement('a')
+  anchor.href = url
+  anchor.download = fileName
+  anchor.click()
+  URL.revokeObjectURL(url)
+}
+
+type CanvasProps = {
+  canvasId: string
+  canvasName: string
+  initialLoad: LoadResult
+  onRename: (name: string) => void
+}
+
+export function Canvas({ canvasId, canvasName, initialLoad, onRename }: CanvasProps) {
   const initialZoomRef = useRef<number | null>(null)
-  if (initialBlocksRef.current === null) initialBlocksRef.current = loadState()
-  if (initialZoomRef.current === null) initialZoomRef.current = loadZoom()
+  if (initialZoomRef.current === null) initialZoomRef.current = loadZoom(canvasId)
 
   const [blocks, setBlocks] = useState<Block[]>(() => {
-    const base = initialBlocksRef.current ?? seedBlocks
+    const base = initialLoad.blocks ?? seedBlocks
     return base
       .filter((b) => b.type !== 'summary' || b.summaryText) // keep summaries only if they have content
       .map((b) => {
@@ -62,6 +141,13 @@ export function Canvas() {
         }
       })
   })
+  const blocksRef = useRef<Block[]>(blocks)
+  const gestureRef = useRef<{ label: string; base: Block[] } | null>(null)
+  // Members of the frame being dragged, fixed when the drag starts so the frame does not sweep up blocks it passes.
+  const frameDragRef = useRef<{ frameId: string; memberIds: Set<string> } | null>(null)
+  const [snapGuides, setSnapGuides] = useState<SnapGuide[]>([])
+  const [snapToGrid, setSnapToGrid] = useState(false)
+  const [history, setHistory] = useState<HistoryState>(() => loadHistory(canvasId))
   const [activeTool, setActiveTool] = useState<Tool>('select')
   const [zoom, setZoom] = useState<number>(() => {
     const stored = initialZoomRef.current
@@ -72,8 +158,14 @@ export function Canvas() {
   const [selectedIds, setSelectedIds] = useState<string[]>([])
   const [hoverHighlightIds, setHoverHighlightIds] = useState<string[]>([])
   const [pinnedHighlightIds, setPinnedHighlightIds] = useState<string[]>([])
+  const [searchOpen, setSearchOpen] = useState(false)
+  const [searchQuery, setSearchQuery] = useState('')
+  const [searchIndex, setSearchIndex] = useState(0)
+  const searchInputRef = useRef<HTMLInputElement>(null)
   const [panelSummary, setPanelSummary] = useState<SummaryBlock | null>(null)
+  const [summaries, setSummaries] = useState<SummaryStore>(() => loadSummaries(canvasId, blocks.map((b) => b.id)))
   const [canvasSummary, setCanvasSummary] = useState<CanvasSummaryData | null>(null)
+  const [compareVersionId, setCompareVersionId] = useState<string | null>(null)
   const [panelOpen, setPanelOpen] = useState(false)
   const [panelWidth, setPanelWidth] = useState<number>(360)
   const panelResizeRef = useRef<{ startX: number; startWidth: number } | null>(null)
@@ -84,6 +176,10 @@ export function Canvas() {
   const [useGpt, setUseGpt] = useState<boolean>(false)
   const [toastMessage, setToastMessage] = useState<string | null>(null)
   const toastTimeoutRef = useRef<number | null>(null)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const [pendingImport, setPendingImport] = useState<CanvasBundle | null>(null)
+  const importInputRef = useRef<HTMLInputElement | null>(null)
+  const [storageUsage, setStorageUsage] = useState<StorageEstimate | null>(null)
 
   const CitationChip = ({
     citation,
@@ -99,6 +195,8 @@ export function Canvas() {
         className={className}
         onMouseEnter={() => handleCitationHover(citation.blockIds)}
         onMouseLeave={handleCitationLeave}
+        onFocus={() => handleCitationHover(citation.blockIds)}
+        onBlur={handleCitationLeave}
         onClick={(e) => {
           e.stopPropagation()
           handleCitationClick(citation.blockIds)
@@ -148,8 +246,30 @@ export function Canvas() {
     currentY: number
   }>({ active: false, pointerId: null, originX: 0, originY: 0, currentX: 0, currentY: 0 })
   const scrollRef = useRef<HTMLDivElement | null>(null)
+  // Canvas area the user has panned over; the board keeps a margin around it so panning never hits an edge.
+  const [explored, setExplored] = useState<Bounds | null>(null)
+  const pendingScrollRef = useRef<{ x: number; y: number; offsetX: number; offsetY: number } | null>(null)
+  const originRef = useRef<{ x: number; y: number } | null>(null)
+  const panRef = useRef<{ pointerId: number; startX: number; startY: number; scrollLeft: number; scrollTop: number } | null>(
+    null
+  )
+  const [spaceHeld, setSpaceHeld] = useState(false)
+  const keyboardAnchorRef = useRef<string | null>(null)
+  const summarizeButtonRef = useRef<HTMLButtonElement | null>(null)
+  const pointerPositionRef = useRef<{ x: number; y: number } | null>(null)
+  const [fileDragActive, setFileDragActive] = useState(false)
+  const panelRef = useRef<HTMLElement | null>(null)
+  const [isPanning, setIsPanning] = useState(false)
+  const [scrollMetrics, setScrollMetrics] = useState({ left: 0, top: 0, width: 0, height: 0 })
+  const viewAnimationRef = useRef<number | null>(null)
+  // Animation frames outlive the render that started them, so they call the latest scroll helper through this ref.
+  const moveViewRef = useRef<((x: number, y: number, nextZoom: number) => void) | null>(null)
   const didInitialCenterRef = useRef(false)
   const blockLookup = useMemo(() => new Map(blocks.map((b) => [b.id, b])), [blocks])
+  // Connectors live in the block list but have no box of their own; layout and hit-testing use the rest.
+  const placedBlocks = blocks.filter((b) => !isConnector(b))
+  const connectors = blocks.filter(isConnector)
+  const [connectFromId, setConnectFromId] = useState<string | null>(null)
   const activeHighlightIds = pinnedHighlightIds.length ? pinnedHighlightIds : hoverHighlightIds
   const activeHighlightSet = new Set(activeHighlightIds)
 
@@ -161,20 +281,177 @@ export function Canvas() {
     toastTimeoutRef.current = window.setTimeout(() => setToastMessage(null), 4000)
   }
 
-  const handlePositionChange = (id: string, x: number, y: number) => {
-    setBlocks((prev) =>
+  const replaceBlocks = (next: Block[]) => {
+    blocksRef.current = next
+    setBlocks(next)
+  }
+
+  /**
+   * Single entry point for block mutations. Outside a gesture every call becomes
+   * an undo step; inside one (drag/resize) the whole gesture is recorded on end.
+   */
+  const commitBlocks = (
+    label: string,
+    updater: (prev: Block[]) => Block[],
+    options: { record?: boolean; mergeKey?: string } = {}
+  ) => {
+    const prev = blocksRef.current
+    const next = stampChangedBlocks(prev, updater(prev))
+    if (next === prev) return
+    replaceBlocks(next)
+    if (options.record === false || gestureRef.current) return
+    const command = createCommand(label, prev, next, options.mergeKey)
+    if (command) setHistory((h) => pushCommand(h, command))
+  }
+
+  const handleGestureStart = (label: string) => {
+    gestureRef.current = { label, base: blocksRef.current }
+  }
+
+  const handleGestureEnd = () => {
+    const gesture = gestureRef.current
+    gestureRef.current = null
+    frameDragRef.current = null
+    setSnapGuides([])
+    if (!gesture) return
+    const command = createCommand(gesture.label, gesture.base, blocksRef.current)
+    if (command) setHistory((h) => pushCommand(h, command))
+  }
+
+  const stepHistory = (direction: 'undo' | 'redo') => {
+    const stack = direction === 'undo' ? history.undo : history.redo
+    const command = stack[stack.length - 1]
+    if (!command) return
+    replaceBlocks(stampChangedBlocks(blocksRef.current, applyCommand(blocksRef.current, command, direction)))
+    setHistory((h) =>
+      direction === 'undo'
+        ? { undo: h.undo.slice(0, -1), redo: [...h.redo, command] }
+        : { undo: [...h.undo, command], redo: h.redo.slice(0, -1) }
+    )
+    const remaining = new Set(blocksRef.current.map((b) => b.id))
+    setSelectedIds((prev) => prev.filter((id) => remaining.has(id)))
+  }
+
+  const handlePositionChange = (id: string, rawX: number, rawY: number) => {
+    const moved = blocksRef.current.find((b) => b.id === id)
+    if (!moved) return
+    if (moved.type === 'frame' && frameDragRef.current?.frameId !== id) {
+      const members = frameMembers(moved, blocksRef.current, getBlockHeight)
+      frameDragRef.current = { frameId: id, memberIds: new Set(members.map((b) => b.id)) }
+    }
+    const carried = moved.type === 'frame' && frameDragRef.current ? frameDragRef.current.memberIds : new Set<string>()
+    const others = blocksRef.current
+      .filter((b) => b.id !== id && !carried.has(b.id) && !isConnector(b))
+      .map(toLayoutRect)
+    const snapped = snapRect(
+      { ...toLayoutRect(moved), x: rawX, y: rawY },
+      others,
+      SNAP_THRESHOLD / zoom,
+      snapToGrid ? SNAP_GRID : undefined
+    )
+    setSnapGuides(snapped.guides)
+    const { x, y } = snapped
+    if (moved.type === 'frame') {
+      const dx = x - moved.x
+      const dy = y - moved.y
+      commitBlocks('Move area', (prev) =>
+        prev.map((block) => {
+          if (block.id === id) return { ...block, x, y }
+          return carried.has(block.id) ? { ...block, x: block.x + dx, y: block.y + dy } : block
+        })
+      )
+      return
+    }
+    commitBlocks('Move block', (prev) =>
       prev.map((block) => (block.id === id ? { ...block, x, y } : block))
     )
   }
 
   const clearSelection = () => setSelectedIds([])
+  const syncRef = useRef<CanvasSync | null>(null)
+
+  /** Another tab saved newer versions of blocks we tried to write; adopt them instead of overwriting. */
+  const adoptConflicts = (conflicts: Block[]) => {
+    const byId = new Map(conflicts.map((b) => [b.id, b]))
+    const current = blocksRef.current
+    const currentIds = new Set(current.map((b) => b.id))
+    replaceBlocks([...current.map((b) => byId.get(b.id) ?? b), ...conflicts.filter((b) => !currentIds.has(b.id))])
+    showToast(
+      `Another tab saved newer changes to ${conflicts.length} block${conflicts.length === 1 ? '' : 's'}; kept those instead of overwriting them.`
+    )
+  }
+
+  const handleRemoteChanges = (message: SyncMessage) => {
+    const { blocks: merged, applied, removedIds } = mergeRemoteChanges(blocksRef.current, message)
+    if (merged === blocksRef.current) return
+    acknowledgeRemoteChanges(canvasId, applied, removedIds)
+    replaceBlocks(merged)
+    if (removedIds.length) setSelectedIds((prev) => prev.filter((id) => !removedIds.includes(id)))
+  }
+
+  const [saver] = useState(() =>
+    createStateSaver(canvasId, (result: SaveResult) => {
+      setSaveError(result.ok ? null : result.message)
+      void getStorageUsage().then(setStorageUsage)
+      if (!result.ok) return
+      if (result.upserts.length || result.deletes.length) {
+        syncRef.current?.publish({
+          order: blocksRef.current.map((b) => b.id),
+          upserts: result.upserts,
+          deletes: result.deletes.map((b) => ({ id: b.id, updatedAt: b.updatedAt })),
+        })
+      }
+      if (result.conflicts.length) adoptConflicts(result.conflicts)
+    })
+  )
+
+  useEffect(() => {
+    const sync = createCanvasSync(canvasId)
+    syncRef.current = sync
+    return () => {
+      sync.close()
+      syncRef.current = null
+    }
+  }, [canvasId])
+
+  useEffect(() => syncRef.current?.subscribe(handleRemoteChanges))
+
+  useEffect(() => {
+    saver.schedule(blocks)
+  }, [saver, blocks])
+
+  useEffect(() => {
+    const handlePageHide = () => void saver.flush()
+    window.addEventListener('pagehide', handlePageHide)
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide)
+      void saver.close()
+    }
+  }, [saver])
+
+  useEffect(() => {
+    saveZoom(canvasId, zoom)
+  }, [canvasId, zoom])
+
   useEffect(() => {
-    saveState(blocks)
-  }, [blocks])
+    saveHistory(canvasId, history)
+  }, [canvasId, history])
 
   useEffect(() => {
-    saveZoom(zoom)
-  }, [zoom])
+    saveSummaries(canvasId, summaries)
+  }, [canvasId, summaries])
+
+  useEffect(() => {
+    const handleHistoryKey = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') return
+      const tag = (event.target as HTMLElement | null)?.tagName
+      if (tag && ['INPUT', 'TEXTAREA'].includes(tag)) return
+      event.preventDefault()
+      stepHistory(event.shiftKey ? 'redo' : 'undo')
+    }
+    window.addEventListener('keydown', handleHistoryKey)
+    return () => window.removeEventListener('keydown', handleHistoryKey)
+  })
 
   useEffect(() => {
     const handleKey = (event: KeyboardEvent) => {
@@ -188,7 +465,97 @@ export function Canvas() {
     }
     window.addEventListener('keydown', handleKey)
     return () => window.removeEventListener('keydown', handleKey)
-  }, [selectedIds])
+  })
+
+  useEffect(() => {
+    const isEditable = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null
+      return Boolean(el && (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName) || el.isContentEditable))
+    }
+    const copySelection = (event: ClipboardEvent) => {
+      if (!selectedIds.length || !event.clipboardData || isEditable(event.target)) return false
+      // Highlighted text (e.g. in the summary panel) copies as text, not as blocks.
+      if (window.getSelection()?.toString()) return false
+      const selected = getSelectedBlocks()
+      const links = connectors.filter((c) => selectedIds.includes(c.fromId) && selectedIds.includes(c.toId))
+      event.clipboardData.setData(CLIPBOARD_MIME, JSON.stringify(createClipboardBundle([...selected, ...links], summaries)))
+      event.clipboardData.setData('text/plain', blocksToPlainText(selected))
+      event.preventDefault()
+      return true
+    }
+    const handleCopy = (event: ClipboardEvent) => {
+      copySelection(event)
+    }
+    const handleCut = (event: ClipboardEvent) => {
+      if (copySelection(event)) deleteBlocks(selectedIds)
+    }
+    const handlePaste = (event: ClipboardEvent) => {
+      if (!event.clipboardData || isEditable(event.target)) return
+      const content = readClipboardContent(event.clipboardData)
+      if (!content) return
+      event.preventDefault()
+      const position = getPastePosition()
+      if (content.kind === 'blocks') pasteBlocks(content.bundle, position)
+      else if (content.kind === 'image') void pasteImageFile(content.file, position)
+      else if (content.kind === 'link') addLinkBlock(position, content.url)
+      else addTextBlock(position, content.text)
+    }
+    window.addEventListener('copy', handleCopy)
+    window.addEventListener('cut', handleCut)
+    window.addEventListener('paste', handlePaste)
+    return () => {
+      window.removeEventListener('copy', handleCopy)
+      window.removeEventListener('cut', handleCut)
+      window.removeEventListener('paste', handlePaste)
+    }
+  })
+
+  useEffect(() => {
+    moveViewRef.current = (x, y, nextZoom) => {
+      const el = scrollRef.current
+      if (el) scrollCanvasPointTo(x, y, el.clientWidth / 2, el.clientHeight / 2, nextZoom)
+    }
+  })
+
+  useEffect(() => {
+    const handleResize = () => {
+      const el = scrollRef.current
+      if (el) setScrollMetrics({ left: el.scrollLeft, top: el.scrollTop, width: el.clientWidth, height: el.clientHeight })
+    }
+    window.addEventListener('resize', handleResize)
+    return () => {
+      window.removeEventListener('resize', handleResize)
+      if (viewAnimationRef.current !== null) cancelAnimationFrame(viewAnimationRef.current)
+    }
+  }, [])
+
+  useEffect(() => {
+    const handleFitKey = (event: KeyboardEvent) => {
+      if (!event.shiftKey || event.ctrlKey || event.metaKey || event.altKey) return
+      const el = event.target as HTMLElement | null
+      if (el && (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName) || el.isContentEditable)) return
+      // event.code keeps Shift+1/Shift+2 working on layouts where the shifted digit is a symbol.
+      if (event.code === 'Digit1') {
+        event.preventDefault()
+        zoomToFitAll()
+      } else if (event.code === 'Digit2') {
+        event.preventDefault()
+        zoomToSelection()
+      }
+    }
+    window.addEventListener('keydown', handleFitKey)
+    return () => window.removeEventListener('keydown', handleFitKey)
+  })
+
+  useEffect(() => {
+    const handleFindKey = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'f') return
+      event.preventDefault()
+      openSearch()
+    }
+    window.addEventListener('keydown', handleFindKey)
+    return () => window.removeEventListener('keydown', handleFindKey)
+  })
 
   useEffect(() => {
     const handleEscape = (event: KeyboardEvent) => {
@@ -198,6 +565,7 @@ export function Canvas() {
         setHoverHighlightIds([])
         panelResizeRef.current = null
         setPanelOpen(false)
+        setSearchOpen(false)
       }
     }
     window.addEventListener('keydown', handleEscape)
@@ -205,41 +573,33 @@ export function Canvas() {
   }, [])
 
   useEffect(() => {
-    try {
-      const raw = window.localStorage.getItem(PANEL_CANVAS_KEY)
-      if (raw) {
-        const parsed = JSON.parse(raw) as CanvasSummaryData
-        if (parsed && parsed.scope) {
-          const summaryText =
-            (parsed as any).summaryText ??
-            Object.entries(parsed.sections || {}).map(([label, value]) => `• ${label}: ${value}`).join('\n')
-          setCanvasSummary({ ...parsed, summaryText })
-        }
-      }
-    } catch (err) {
-      console.warn('Failed to load canvas summary', err)
-    }
-  }, [])
+    const parsed = loadPanelSummary(canvasId, 'canvas')
+    if (!parsed) return
+    const knownIds = initialLoad.blocks?.map((b) => b.id) ?? seedBlocks.map((b) => b.id)
+    const summary = validateCanvasSummary(parsed, knownIds)
+    if (summary) setCanvasSummary(summary)
+  }, [canvasId, initialLoad.blocks])
 
   useEffect(() => {
-    try {
-      const raw = window.localStorage.getItem(PANEL_SELECTION_KEY)
-      if (raw) {
-        const parsed = JSON.parse(raw) as SummaryBlock
-        if (parsed && parsed.scope && parsed.summaryText) {
-          setPanelSummary(parsed)
-        }
-      }
-    } catch (err) {
-      console.warn('Failed to load selection summary', err)
+    const parsed = loadPanelSummary(canvasId, 'selection')
+    if (!parsed) return
+    const knownIds = initialLoad.blocks?.map((b) => b.id) ?? seedBlocks.map((b) => b.id)
+    const [summary] = validateBlocks([parsed], { knownIds }).blocks
+    if (summary?.type === 'summary') {
+      setPanelSummary(summary)
     }
-  }, [])
+  }, [canvasId, initialLoad.blocks])
 
   useEffect(() => {
     if (!chatBottomRef.current) return
     chatBottomRef.current.scrollIntoView({ behavior: 'smooth' })
   }, [panelSummary?.messages, canvasSummary?.messages])
 
+  useEffect(() => {
+    const notices = initialLoad.notices
+    if (notices.length) showToast(notices.join(' '))
+  }, [initialLoad.notices])
+
   useEffect(() => {
     return () => {
       if (toastTimeoutRef.current) {
@@ -248,81 +608,163 @@ export function Canvas() {
     }
   }, [])
 
-  const addTextBlock = (position: { x: number; y: number }) => {
+  const addTextBlock = (position: { x: number; y: number }, text = 'New note…') => {
     const now = new Date().toISOString()
-    const pos = clampPosition(position.x, position.y, 340, 140)
     const block: Block = {
       id: createId('T'),
       type: 'text',
-      text: 'New note…',
-      x: pos.x,
-      y: pos.y,
+      text,
+      x: position.x,
+      y: position.y,
       width: 340,
       createdAt: now,
       updatedAt: now,
     }
-    setBlocks((prev) => [...prev, block])
+    commitBlocks('Add text block', (prev) => [...prev, block])
     setSelectedIds([block.id])
   }
 
-  const addImageBlock = (position: { x: number; y: number }) => {
-    const url = window.prompt('Image URL?')
+  const addImageBlock = (position: { x: number; y: number }, source?: { src: string; aspectRatio?: number }) => {
+    const url = source ? source.src : window.prompt('Image URL?')
     if (!url) return
     const now = new Date().toISOString()
-    const defaultAspect = 0.75
-    const pos = clampPosition(position.x, position.y, 320, 320 * defaultAspect)
+    const defaultAspect = source?.aspectRatio ?? 0.75
     const block: Block = {
       id: createId('IMG'),
       type: 'image',
       src: url,
-      x: pos.x,
-      y: pos.y,
+      x: position.x,
+      y: position.y,
       width: 320,
       height: undefined,
       aspectRatio: defaultAspect,
       createdAt: now,
       updatedAt: now,
     }
-    setBlocks((prev) => [...prev, block])
+    commitBlocks('Add image block', (prev) => [...prev, block])
     setSelectedIds([block.id])
   }
 
-  const addLinkBlock = (position: { x: number; y: number }) => {
-    const url = window.prompt('Link URL?')
+  const addLinkBlock = (position: { x: number; y: number }, pastedUrl?: string) => {
+    const url = pastedUrl ?? window.prompt('Link URL?')
     if (!url) return
-    const labelInput = window.prompt('Link label?', url) || ''
+    const labelInput = pastedUrl ? url : window.prompt('Link label?', url) || ''
     const label = labelInput.trim() || url
     const now = new Date().toISOString()
-    const pos = clampPosition(position.x, position.y, 360, 110)
     const block: Block = {
       id: createId('L'),
       type: 'link',
       url,
       label,
-      x: pos.x,
-      y: pos.y,
+      x: position.x,
+      y: position.y,
       width: 360,
       height: 110,
       createdAt: now,
       updatedAt: now,
     }
-    setBlocks((prev) => [...prev, block])
+    commitBlocks('Add link block', (prev) => [...prev, block])
+    setSelectedIds([block.id])
+    void unfurlLink(block.id, url)
+  }
+
+  /**
+   * Fills in the page's title, description and image once the server has fetched them. Not an undo
+   * step of its own, and dropped if the link was removed or pointed elsewhere in the meantime.
+   * Failures are only reported when the user asked for the preview (`manual`).
+   */
+  const unfurlLink = async (id: string, url: string, manual = false) => {
+    const result = await fetchLinkPreview(url)
+    if (!result.ok) {
+      if (manual) showToast(`Could not load a preview: ${result.error}.`)
+      return
+    }
+    const { preview } = result
+    commitBlocks(
+      'Load link preview',
+      (prev) =>
+        prev.map((b) =>
+          b.id === id && b.type === 'link' && b.url === url
+            ? { ...b, preview, height: Math.max(b.height ?? 110, linkCardHeight(preview)) }
+            : b
+        ),
+      { record: false }
+    )
+  }
+
+  const addDecisionBlock = (position: { x: number; y: number }) => {
+    const decision = window.prompt('What was decided?')
+    if (!decision?.trim()) return
+    const now = new Date().toISOString()
+    const block: Block = {
+      id: createId('D'),
+      type: 'decision',
+      decision: decision.trim(),
+      status: 'proposed',
+      rationale: '',
+      date: now.slice(0, 10),
+      owner: '',
+      alternatives: [],
+      x: position.x,
+      y: position.y,
+      width: 380,
+      height: 260,
+      createdAt: now,
+      updatedAt: now,
+    }
+    commitBlocks('Add decision', (prev) => [...prev, block])
+    setSelectedIds([block.id])
+  }
+
+  const addChecklistBlock = (position: { x: number; y: number }) => {
+    const now = new Date().toISOString()
+    const block: Block = {
+      id: createId('CL'),
+      type: 'checklist',
+      title: 'Action items',
+      items: [createChecklistItem({ text: '', done: false })],
+      x: position.x,
+      y: position.y,
+      width: 360,
+      height: checklistHeight(1),
+      createdAt: now,
+      updatedAt: now,
+    }
+    commitBlocks('Add checklist', (prev) => [...prev, block])
     setSelectedIds([block.id])
   }
 
-  const getSelectedBlocks = (): Block[] => blocks.filter((b) => selectedIds.includes(b.id))
+  const addFrameBlock = (position: { x: number; y: number }) => {
+    const now = new Date().toISOString()
+    const block: Block = {
+      id: createId('F'),
+      type: 'frame',
+      title: 'Untitled area',
+      x: position.x,
+      y: position.y,
+      width: 640,
+      height: 420,
+      createdAt: now,
+      updatedAt: now,
+    }
+    commitBlocks('Add area', (prev) => [...prev, block])
+    setSelectedIds([block.id])
+  }
+
+  const getSelectedBlocks = (): Block[] => placedBlocks.filter((b) => selectedIds.includes(b.id))
   const getBlockHeight = (block: Block) => {
     if (block.type === 'image') {
       const ratio =
         block.aspectRatio ??
         (typeof block.height === 'number' && block.height > 0 ? block.height / block.width : 0.75)
-      return block.width * ratio
+      return block.width * ratio + (block.caption ? IMAGE_CAPTION_HEIGHT : 0)
     }
     return block.height ?? 120
   }
 
   const selectedBlocks = getSelectedBlocks()
   const hasSummaryRefSelected = selectedBlocks.some((b) => b.type === 'summary_ref')
+  const hasTextSelected = selectedBlocks.some((b) => b.type === 'text')
   const selectionBounds = (() => {
     if (selectedBlocks.length === 0) return null
     const minX = Math.min(...selectedBlocks.map((b) => b.x))
@@ -332,11 +774,53 @@ export function Canvas() {
     return { minX, maxX, minY, maxY }
   })()
 
+  const world = (() => {
+    const rects: Bounds[] = placedBlocks.map((b) => ({ minX: b.x, minY: b.y, maxX: b.x + b.width, maxY: b.y + getBlockHeight(b) }))
+    if (explored) rects.push(explored)
+    if (!rects.length) rects.push({ minX: 0, minY: 0, maxX: 0, maxY: 0 })
+    const minX = Math.floor((Math.min(...rects.map((r) => r.minX)) - WORLD_MARGIN) / WORLD_GRID) * WORLD_GRID
+    const minY = Math.floor((Math.min(...rects.map((r) => r.minY)) - WORLD_MARGIN) / WORLD_GRID) * WORLD_GRID
+    const maxX = Math.ceil((Math.max(...rects.map((r) => r.maxX)) + WORLD_MARGIN) / WORLD_GRID) * WORLD_GRID
+    const maxY = Math.ceil((Math.max(...rects.map((r) => r.maxY)) + WORLD_MARGIN) / WORLD_GRID) * WORLD_GRID
+    return { minX, minY, width: maxX - minX, height: maxY - minY }
+  })()
+
+  /** The part of the board currently visible, in canvas coordinates. */
+  const getViewRect = (): Bounds | null => {
+    const scrollEl = scrollRef.current
+    if (!scrollEl) return null
+    const minX = scrollEl.scrollLeft / zoom + world.minX
+    const minY = scrollEl.scrollTop / zoom + world.minY
+    return { minX, minY, maxX: minX + scrollEl.clientWidth / zoom, maxY: minY + scrollEl.clientHeight / zoom }
+  }
+
+  /**
+   * Scrolls so the canvas point (x, y) sits at (offsetX, offsetY) inside the viewport, optionally at a new
+   * zoom. A zoom change only resizes the board on the next render, so the scroll is applied after layout.
+   */
+  const scrollCanvasPointTo = (x: number, y: number, offsetX: number, offsetY: number, nextZoom = zoom) => {
+    if (nextZoom !== zoom) {
+      pendingScrollRef.current = { x, y, offsetX, offsetY }
+      setZoom(nextZoom)
+      return
+    }
+    scrollRef.current?.scrollTo({
+      left: (x - world.minX) * zoom - offsetX,
+      top: (y - world.minY) * zoom - offsetY,
+    })
+  }
+
   const intersects = (a: { x: number; y: number; width: number; height: number }, b: Block) => {
     const bHeight = getBlockHeight(b)
     return a.x < b.x + b.width && a.x + a.width > b.x && a.y < b.y + bHeight && a.y + a.height > b.y
   }
 
+  /** Frames are large, so the marquee only picks one up when it encloses the whole frame. */
+  const marqueeHits = (rect: { x: number; y: number; width: number; height: number }, b: Block) => {
+    if (b.type !== 'frame') return intersects(rect, b)
+    return rect.x <= b.x && rect.y <= b.y && rect.x + rect.width >= b.x + b.width && rect.y + rect.height >= b.y + b.height
+  }
+
   const getSelectionRect = () => {
     if (!selection.active) return null
     const x = Math.min(selection.originX, selection.currentX)
@@ -346,17 +830,365 @@ export function Canvas() {
     return { x, y, width, height }
   }
 
+  const readingOrder = () =>
+    [...placedBlocks].sort((a, b) => Math.floor(a.y / READING_ROW) - Math.floor(b.y / READING_ROW) || a.x - b.x)
+
+  const searchResults = searchOpen ? searchBlocks(readingOrder(), searchQuery) : []
+  const activeSearchIndex = Math.min(searchIndex, Math.max(0, searchResults.length - 1))
+
+  const goToSearchResult = (results: SearchResult[], index: number) => {
+    const result = results[index]
+    if (!result) return
+    setSearchIndex(index)
+    panToBlocks([result.blockId])
+  }
+
+  /** Matches are pinned like citation highlights, so everything else dims while searching. */
+  const handleSearchChange = (query: string) => {
+    const results = searchBlocks(readingOrder(), query)
+    setSearchQuery(query)
+    setPinnedHighlightIds(results.map((r) => r.blockId))
+    setHoverHighlightIds([])
+    setSearchIndex(0)
+    goToSearchResult(results, 0)
+  }
+
+  const stepSearch = (direction: 1 | -1) => {
+    if (!searchResults.length) return
+    setPinnedHighlightIds(searchResults.map((r) => r.blockId))
+    goToSearchResult(searchResults, (activeSearchIndex + direction + searchResults.length) % searchResults.length)
+  }
+
+  const openSearch = () => {
+    if (searchOpen) {
+      searchInputRef.current?.focus()
+      searchInputRef.current?.select()
+      return
+    }
+    setSearchOpen(true)
+    if (searchQuery.trim()) handleSearchChange(searchQuery)
+  }
+
+  const closeSearch = () => {
+    setSearchOpen(false)
+    handleClearHighlight()
+  }
+
+  const focusBlock = (id: string) => {
+    scrollRef.current?.querySelector<HTMLElement>(`[data-block-id="${CSS.escape(id)}"]`)?.focus()
+  }
+
+  /** Closest block whose centre lies in the given direction, preferring ones roughly in line. */
+  const nearestBlockInDirection = (from: Block, dirX: number, dirY: number) => {
+    const centerX = from.x + from.width / 2
+    const centerY = from.y + getBlockHeight(from) / 2
+    let best: Block | null = null
+    let bestScore = Infinity
+    for (const b of placedBlocks) {
+      if (b.id === from.id) continue
+      const dx = b.x + b.width / 2 - centerX
+      const dy = b.y + getBlockHeight(b) / 2 - centerY
+      const along = dx * dirX + dy * dirY
+      if (along <= 0) continue
+      const across = Math.abs(dx * dirY) + Math.abs(dy * dirX)
+      const score = along + across * 2
+      if (score < bestScore) {
+        best = b
+        bestScore = score
+      }
+    }
+    return best
+  }
+
+  const toLayoutRect = (b: Block): LayoutRect => ({ id: b.id, x: b.x, y: b.y, width: b.width, height: getBlockHeight(b) })
+
+  /** Moves blocks to new positions as one undo step; frames carry their members along. */
+  const applyPositions = (label: string, positions: Map<string, { x: number; y: number }>) => {
+    const deltas = new Map<string, { dx: number; dy: number }>()
+    positions.forEach((position, id) => {
+      const block = blockLookup.get(id)
+      if (block) deltas.set(id, { dx: position.x - block.x, dy: position.y - block.y })
+    })
+    placedBlocks.forEach((b) => {
+      const delta = deltas.get(b.id)
+      if (b.type !== 'frame' || !delta) return
+      frameMembers(b, blocks, getBlockHeight).forEach((m) => {
+        if (!deltas.has(m.id)) deltas.set(m.id, delta)
+      })
+    })
+    commitBlocks(label, (prev) =>
+      prev.map((b) => {
+        const delta = deltas.get(b.id)
+        return delta && (delta.dx || delta.dy) ? { ...b, x: b.x + delta.dx, y: b.y + delta.dy } : b
+      })
+    )
+  }
+
+  const alignSelection = (mode: AlignMode) => {
+    const action = ALIGN_ACTIONS.find((a) => a.mode === mode)
+    applyPositions(action?.label ?? 'Align blocks', alignRects(getSelectedBlocks().map(toLayoutRect), mode))
+  }
+
+  const distributeSelection = (axis: 'x' | 'y') => {
+    applyPositions(
+      axis === 'x' ? 'Distribute horizontally' : 'Distribute vertically',
+      distributeRects(getSelectedBlocks().map(toLayoutRect), axis)
+    )
+  }
+
+  const tidySelection = () => {
+    // Members travel with their frame, so only the outermost selected blocks are packed.
+    const selected = getSelectedBlocks()
+    const carried = new Set(
+      selected.flatMap((b) => (b.type === 'frame' ? frameMembers(b, blocks, getBlockHeight).map((m) => m.id) : []))
+    )
+    const roots = selected.filter((b) => !carried.has(b.id))
+    if (roots.length < 2) return
+    applyPositions('Tidy blocks', tidyRects(roots.map(toLayoutRect)))
+  }
+
+  /** Collects action-item sentences from the selected notes into a new checklist beside them. */
+  const extractSelectionActionItems = () => {
+    const sources = getSelectedBlocks().filter((b): b is TextBlock => b.type === 'text')
+    const items = sources.flatMap((b) => extractActionItems(b.text, b.id)).map(createChecklistItem)
+    if (!items.length || !selectionBounds) {
+      showToast('No action items found in the selected notes.')
+      return
+    }
+    const now = new Date().toISOString()
+    const block: Block = {
+      id: createId('CL'),
+      type: 'checklist',
+      title: 'Action items',
+      items,
+      x: selectionBounds.maxX + 40,
+      y: selectionBounds.minY,
+      width: 360,
+      height: checklistHeight(items.length),
+      createdAt: now,
+      updatedAt: now,
+    }
+    commitBlocks('Extract action items', (prev) => [...prev, block])
+    setSelectedIds([block.id])
+    showToast(`Extracted ${items.length} action item${items.length === 1 ? '' : 's'} into a checklist.`)
+  }
+
+  const nudgeSelection = (dx: number, dy: number) => {
+    const ids = new Set(selectedIds)
+    blocks.forEach((b) => {
+      if (b.type === 'frame' && ids.has(b.id)) frameMembers(b, blocks, getBlockHeight).forEach((m) => ids.add(m.id))
+    })
+    commitBlocks(
+      ids.size === 1 ? 'Move block' : `Move ${ids.size} blocks`,
+      (prev) => prev.map((b) => (ids.has(b.id) ? { ...b, x: b.x + dx, y: b.y + dy } : b)),
+      { mergeKey: `nudge:${[...ids].sort().join('|')}` }
+    )
+  }
+
+  /**
+   * Keyboard model for focused blocks: Tab/Shift+Tab walk them in reading order, arrows nudge the
+   * selection (Shift for bigger steps) or, with nothing selected or Alt held, jump to the nearest block
+   * in that direction. Space selects, Ctrl/Cmd+Space toggles, and Shift+Space selects everything in the
+   * box between the last selected block and the focused one, standing in for the marquee drag.
+   */
+  const handleBlockKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const id = (event.target as HTMLElement).dataset.blockId
+    const block = id ? blockLookup.get(id) : undefined
+    if (!id || !block) return
+    const modifier = event.ctrlKey || event.metaKey
+
+    if (event.key === 'Tab') {
+      const order = readingOrder()
+      const next = order[order.findIndex((b) => b.id === id) + (event.shiftKey ? -1 : 1)]
+      if (next) {
+        event.preventDefault()
+        focusBlock(next.id)
+      } else if (!event.shiftKey && summarizeButtonRef.current) {
+        event.preventDefault()
+        summarizeButtonRef.current.focus()
+      }
+      return
+    }
+
+    const direction = ARROW_DIRECTIONS[event.key]
+    if (direction) {
+      event.preventDefault()
+      if (selectedIds.length && !event.altKey) {
+        const step = event.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP
+        nudgeSelection(direction[0] * step, direction[1] * step)
+        return
+      }
+      const next = nearestBlockInDirection(block, direction[0], direction[1])
+      if (next) focusBlock(next.id)
+      return
+    }
+
+    if (event.key === ' ') {
+      // Also keeps Space on a focused block from arming the pan gesture.
+      event.preventDefault()
+      event.stopPropagation()
+      const anchor = keyboardAnchorRef.current ? blockLookup.get(keyboardAnchorRef.current) : undefined
+      if (event.shiftKey && anchor) {
+        const minX = Math.min(anchor.x, block.x)
+        const minY = Math.min(anchor.y, block.y)
+        const maxX = Math.max(anchor.x + anchor.width, block.x + block.width)
+        const maxY = Math.max(anchor.y + getBlockHeight(anchor), block.y + getBlockHeight(block))
+        const rect = { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+        setSelectedIds(placedBlocks.filter((b) => marqueeHits(rect, b)).map((b) => b.id))
+        return
+      }
+      keyboardAnchorRef.current = id
+      if (modifier) {
+        setSelectedIds((prev) => (prev.includes(id) ? prev.filter((existing) => existing !== id) : [...prev, id]))
+      } else {
+        setSelectedIds([id])
+      }
+      return
+    }
+
+    if (modifier && event.key.toLowerCase() === 'a') {
+      event.preventDefault()
+      setSelectedIds(placedBlocks.map((b) => b.id))
+      return
+    }
+
+    if (event.key === 'Escape') setSelectedIds([])
+  }
+
+  /** Where pasted content lands: the last pointer position if it is still in view, else the middle of the view. */
+  const getPastePosition = () => {
+    const view = getViewRect()
+    const pointer = pointerPositionRef.current
+    if (!view) return pointer ?? { x: 0, y: 0 }
+    if (pointer && pointer.x >= view.minX && pointer.x <= view.maxX && pointer.y >= view.minY && pointer.y <= view.maxY) {
+      return pointer
+    }
+    return { x: (view.minX + view.maxX) / 2, y: (view.minY + view.maxY) / 2 }
+  }
+
+  const pasteBlocks = (bundle: CanvasBundle, position: { x: number; y: number }) => {
+    if (!bundle.blocks.length) return
+    // Summaries this canvas already has are shared rather than duplicated; every pasted block gets a fresh id.
+    const incomingSummaries = Object.fromEntries(Object.entries(bundle.summaries).filter(([id]) => !summaries[id]))
+    const takenIds = new Set([...blocks.map((b) => b.id), ...bundle.blocks.map((b) => b.id), ...Object.keys(summaries)])
+    const remapped = remapBundleIds({ ...bundle, summaries: incomingSummaries }, takenIds)
+    const pastedIds = new Set(remapped.blocks.map((b) => b.id))
+    // A connector only comes along when both of its ends were copied.
+    const kept = remapped.blocks.filter((b) => !isConnector(b) || (pastedIds.has(b.fromId) && pastedIds.has(b.toId)))
+    const boxes = kept.filter((b) => !isConnector(b))
+    if (!boxes.length) return
+    const left = Math.min(...boxes.map((b) => b.x))
+    const top = Math.min(...boxes.map((b) => b.y))
+    const now = new Date().toISOString()
+    const placed = kept.map((b) => ({
+      ...b,
+      x: b.x - left + position.x,
+      y: b.y - top + position.y,
+      createdAt: now,
+      updatedAt: now,
+    }))
+    commitBlocks(placed.length === 1 ? 'Paste block' : `Paste ${placed.length} blocks`, (prev) => [...prev, ...placed])
+    setSummaries((prev) => ({ ...prev, ...remapped.summaries }))
+    setSelectedIds(placed.filter((b) => !isConnector(b)).map((b) => b.id))
+  }
+
+  const pasteImageFile = async (file: File, position: { x: number; y: number }) => {
+    try {
+      const src = await readFileAsDataUrl(file)
+      addImageBlock(position, { src, aspectRatio: await measureImageAspect(src) })
+    } catch (err) {
+      console.warn('Failed to read pasted image', err)
+      showToast('Could not read the pasted image.')
+    }
+  }
+
+  const hasDraggedFiles = (event: DragEvent<HTMLDivElement>) => event.dataTransfer.types.includes('Files')
+
+  const handleFileDragOver = (event: DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(event)) return
+    event.preventDefault()
+    event.dataTransfer.dropEffect = 'copy'
+    if (!fileDragActive) setFileDragActive(true)
+  }
+
+  const handleFileDragLeave = (event: DragEvent<HTMLDivElement>) => {
+    if (event.currentTarget.contains(event.relatedTarget as Node | null)) return
+    setFileDragActive(false)
+  }
+
+  /** Dropped screenshots and notes become blocks laid out in a grid from the drop point, in file order. */
+  const handleFileDrop = async (event: DragEvent<HTMLDivElement>) => {
+    if (!hasDraggedFiles(event)) return
+    event.preventDefault()
+    setFileDragActive(false)
+    const origin = toCanvasPoint(event)
+    const { items, skipped } = await readDroppedFiles(Array.from(event.dataTransfer.files))
+    if (skipped.length) {
+      showToast(`Skipped ${skipped.length} file${skipped.length === 1 ? '' : 's'} (only images up to 5 MB and text or Markdown files are supported): ${skipped.join(', ')}`)
+    }
+    if (!items.length) return
+
+    const now = new Date().toISOString()
+    const drafts = items.map((item): Block =>
+      item.kind === 'image'
+        ? {
+            id: createId('IMG'),
+            type: 'image',
+            src: item.src,
+            aspectRatio: item.aspectRatio ?? 0.75,
+            x: 0,
+            y: 0,
+            width: 320,
+            createdAt: now,
+            updatedAt: now,
+          }
+        : {
+            id: createId('T'),
+            type: 'text',
+            text: item.text,
+            x: 0,
+            y: 0,
+            width: 340,
+            height: estimateTextHeight(item.text, 340),
+            createdAt: now,
+            updatedAt: now,
+          }
+    )
+    const positions = gridLayout(
+      drafts.map((b) => ({ width: b.width, height: getBlockHeight(b) })),
+      origin
+    )
+    const placed = drafts.map((b, idx) => ({ ...b, ...positions[idx] }))
+    commitBlocks(placed.length === 1 ? 'Drop file' : `Drop ${placed.length} blocks`, (prev) => [...prev, ...placed])
+    setSelectedIds(placed.map((b) => b.id))
+  }
+
   const deleteBlocks = (ids: string[]) => {
     if (!ids.length) return
-    setBlocks((prev) => prev.filter((block) => !ids.includes(block.id)))
+    commitBlocks(ids.length === 1 ? 'Delete block' : `Delete ${ids.length} blocks`, (prev) => {
+      const removed = new Set(ids)
+      danglingConnectors(prev, removed).forEach((c) => removed.add(c.id))
+      return prev.filter((block) => !removed.has(block.id))
+    })
     setSelectedIds([])
   }
 
   const adjustZoom = (delta: number) => {
-    setZoom((prev) => {
-      const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round((prev + delta) * 10) / 10))
-      return next
-    })
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, Math.round((zoom + delta) * 10) / 10))
+    const view = getViewRect()
+    const scrollEl = scrollRef.current
+    if (!view || !scrollEl) {
+      setZoom(next)
+      return
+    }
+    // Keep the middle of the viewport in place.
+    scrollCanvasPointTo(
+      (view.minX + view.maxX) / 2,
+      (view.minY + view.maxY) / 2,
+      scrollEl.clientWidth / 2,
+      scrollEl.clientHeight / 2,
+      next
+    )
   }
 
   const pickPastelColor = (summaryId: string) => {
@@ -398,8 +1230,13 @@ export function Canvas() {
     const textBlocks = baseBlocks.filter((b): b is Extract<Block, { type: 'text' }> => b.type === 'text')
     const linkBlocks = baseBlocks.filter((b): b is Extract<Block, { type: 'link' }> => b.type === 'link')
     const imageBlocks = baseBlocks.filter((b): b is Extract<Block, { type: 'image' }> => b.type === 'image')
+    const decisionBlocks = sortDecisions(baseBlocks.filter((b): b is DecisionBlock => b.type === 'decision'))
+    const checklistBlocks = baseBlocks.filter((b): b is ChecklistBlock => b.type === 'checklist')
 
-    const gather = (regex: RegExp) => textBlocks.filter((b) => regex.test(b.text)).map((b) => b.text.trim())
+    // Blocks with manual tags are classified by those alone; the regexes only cover untagged text.
+    const gather = (regex: RegExp) =>
+      textBlocks.filter((b) => !hasManualTags(b) && regex.test(b.text)).map((b) => b.text.trim())
+    const tagged = (tag: string) => baseBlocks.flatMap((b) => taggedContent(b, tag))
     const truncate = (t: string, max = 220) => {
       const norm = t.replace(/\s+/g, ' ').trim()
       return norm.length > max ? `${norm.slice(0, max - 1)}…` : norm
@@ -409,9 +1246,23 @@ export function Canvas() {
       ? truncate(textBlocks[0].text)
       : 'Limited information about the overall intent; needs clearer framing.'
     const explored = textBlocks.slice(1, 3).map((b) => truncate(b.text))
-    const decisions = gather(/decision|decided|draft/i)
-    const constraints = gather(/constraint|requires|must|cannot|no /i)
-    const questions = gather(/question|uncertain|uncertainty|not sure|tension|should|how do/i)
+    // Decision records are authoritative and come first, each labelled with its status.
+    const decisions = [
+      ...decisionBlocks.map((b) => describeDecision(b, { alternatives: false })),
+      ...tagged('decision'),
+      ...gather(/decision|decided|draft/i),
+    ]
+    const constraints = [...tagged('constraint'), ...gather(/constraint|requires|must|cannot|no /i)]
+    const questions = [
+      ...tagged('question'),
+      ...tagged('risk'),
+      ...gather(/question|uncertain|uncertainty|not sure|tension|should|how do/i),
+    ]
+    // Unticked checklist items are work nobody has closed yet, so they count as open and as missing.
+    const openActionItems = checklistBlocks.flatMap((b) => openItems(b).filter((item) => item.text.trim()).map(describeChecklistItem))
+    if (openActionItems.length) questions.push(`Open action items: ${openActionItems.join('; ')}.`)
+    const audience = tagged('audience')
+    const customTags = customTagsIn(baseBlocks)
 
     const evidence: string[] = []
     const addEvidence = (label: string) => {
@@ -419,12 +1270,27 @@ export function Canvas() {
       evidence.push(label)
     }
 
+    decisionBlocks.slice(0, 2).forEach((b) => addEvidence(`block:${b.id} (decision) — ${describeDecision(b, { rationale: false, alternatives: false })}`))
     textBlocks.slice(0, 4).forEach((b) => addEvidence(`block:${b.id} (text)`))
     imageBlocks.slice(0, 2).forEach((b) => {
-      const desc = 'Image present (no caption provided).'
+      const desc = b.caption?.trim()
+        ? `Caption: ${truncate(b.caption, 120)}`
+        : b.alt?.trim()
+          ? `Alt text: ${truncate(b.alt, 120)}`
+          : 'Image present (no caption provided).'
       addEvidence(`block:${b.id} (image) — ${desc}`)
     })
-    linkBlocks.slice(0, 2).forEach((b) => addEvidence(`block:${b.id} (link) — ${b.label} (${b.url})`))
+    linkBlocks
+      .slice(0, 2)
+      .forEach((b) =>
+        addEvidence(
+          `block:${b.id} (link) — ${linkTitle(b)} (${b.url})${b.preview?.description ? `; ${pageDescriptionEvidence(b)}` : ''}`
+        )
+      )
+    checklistBlocks
+      .filter((b) => openItems(b).length)
+      .slice(0, 2)
+      .forEach((b) => addEvidence(`block:${b.id} (checklist) — ${b.title}: ${openItems(b).length} open of ${b.items.length}`))
 
     const sections: Record<string, string> = {
       'What this file seems to be about': what,
@@ -432,8 +1298,14 @@ export function Canvas() {
       'Things that look tentatively decided': decisions.length ? decisions.join(' ') : 'No clear decisions; everything reads as exploratory.',
       'Constraints or boundaries shaping the work': constraints.length ? constraints.join(' ') : 'Constraints are weakly stated; call out must-haves explicitly.',
       'Open questions or unresolved tensions': questions.length ? questions.join(' ') : 'Questions are implicit; make uncertainties explicit.',
-      'What’s missing or unclear': 'Success criteria, explicit user outcomes, and facilitation/flow details are not evident.',
+      'What’s missing or unclear': openActionItems.length
+        ? `Still to be done: ${openActionItems.join('; ')}. Success criteria and explicit user outcomes are not evident.`
+        : 'Success criteria, explicit user outcomes, and facilitation/flow details are not evident.',
     }
+    if (audience.length) sections['Who it is for'] = audience.join(' ')
+    customTags.forEach((tag) => {
+      sections[`Tagged “${tag}”`] = tagged(tag).join(' ')
+    })
 
     const summaryText = Object.entries(sections)
       .map(([label, value]) => `• ${label}: ${value}`)
@@ -474,15 +1346,7 @@ export function Canvas() {
   }
 
   const persistCanvasSummary = (summary: CanvasSummaryData | null) => {
-    if (!summary) {
-      window.localStorage.removeItem(PANEL_CANVAS_KEY)
-      return
-    }
-    try {
-      window.localStorage.setItem(PANEL_CANVAS_KEY, JSON.stringify(summary))
-    } catch (err) {
-      console.warn('Failed to persist canvas summary', err)
-    }
+    savePanelSummary(canvasId, 'canvas', summary)
   }
 
   const handlePanelResizeStart = (event: ReactPointerEvent<HTMLDivElement>) => {
@@ -502,6 +1366,14 @@ export function Canvas() {
     setPanelWidth(nextWidth)
   }
 
+  const handlePanelResizeKey = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = event.shiftKey ? 80 : 20
+    const delta = event.key === 'ArrowLeft' ? step : event.key === 'ArrowRight' ? -step : 0
+    if (!delta) return
+    event.preventDefault()
+    setPanelWidth((prev) => Math.min(SUMMARY_PANEL_MAX_WIDTH, Math.max(SUMMARY_PANEL_MIN_WIDTH, prev + delta)))
+  }
+
   const handlePanelResizeEnd = () => {
     panelResizeRef.current = null
     window.removeEventListener('pointermove', handlePanelResizeMove)
@@ -633,6 +1505,11 @@ export function Canvas() {
     return { answer: linesOut.join('\n'), citations }
   }
 
+  const toCanvasPoint = (event: { clientX: number; clientY: number; currentTarget: Element }) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    return { x: (event.clientX - rect.left) / zoom + world.minX, y: (event.clientY - rect.top) / zoom + world.minY }
+  }
+
   const handleCanvasPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
     if (event.target === event.currentTarget) {
       setPinnedHighlightIds([])
@@ -641,16 +1518,17 @@ export function Canvas() {
     if (event.target !== event.currentTarget) return
     if (event.button !== 0 && event.pointerType !== 'touch') return
 
-    const rect = event.currentTarget.getBoundingClientRect()
-    const x = (event.clientX - rect.left) / zoom
-    const y = (event.clientY - rect.top) / zoom
+    const { x, y } = toCanvasPoint(event)
 
     if (activeTool !== 'select') {
-      const { x: px, y: py } = clampPosition(x, y, 0, 0)
-      if (activeTool === 'text') addTextBlock({ x: px, y: py })
-      if (activeTool === 'image') addImageBlock({ x: px, y: py })
-      if (activeTool === 'link') addLinkBlock({ x: px, y: py })
+      if (activeTool === 'text') addTextBlock({ x, y })
+      if (activeTool === 'image') addImageBlock({ x, y })
+      if (activeTool === 'link') addLinkBlock({ x, y })
+      if (activeTool === 'decision') addDecisionBlock({ x, y })
+      if (activeTool === 'checklist') addChecklistBlock({ x, y })
+      if (activeTool === 'frame') addFrameBlock({ x, y })
       setActiveTool('select')
+      setConnectFromId(null)
       return
     }
 
@@ -666,10 +1544,9 @@ export function Canvas() {
   }
 
   const handleCanvasPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    pointerPositionRef.current = toCanvasPoint(event)
     if (!selection.active || selection.pointerId !== event.pointerId) return
-    const rect = event.currentTarget.getBoundingClientRect()
-    const x = (event.clientX - rect.left) / zoom
-    const y = (event.clientY - rect.top) / zoom
+    const { x, y } = pointerPositionRef.current
     setSelection((prev) => ({ ...prev, currentX: x, currentY: y }))
   }
 
@@ -690,20 +1567,53 @@ export function Canvas() {
       return
     }
 
-    const newlySelected = blocks.filter((block) => intersects(rect, block)).map((b) => b.id)
+    const newlySelected = placedBlocks.filter((block) => marqueeHits(rect, block)).map((b) => b.id)
     setSelectedIds(newlySelected)
 
     setSelection({ active: false, pointerId: null, originX: 0, originY: 0, currentX: 0, currentY: 0 })
   }
 
-  const clampPosition = (x: number, y: number, width: number, height: number) => {
-    const clampedX = Math.max(0, Math.min(x, CANVAS_WIDTH - width))
-    const clampedY = Math.max(0, Math.min(y, CANVAS_HEIGHT - height))
-    return { x: clampedX, y: clampedY }
-  }
-
   const handleToolSelect = (tool: Tool) => {
     setActiveTool(tool)
+    setConnectFromId(null)
+  }
+
+  const askRelationshipLabel = (current = '') =>
+    window.prompt(`Relationship label? (e.g. ${RELATIONSHIP_SUGGESTIONS.join(', ')}; leave empty for none)`, current)
+
+  /** Connect tool: the first block clicked is the source, the second the target. */
+  const handleConnectClick = (target: Block) => {
+    if (!connectFromId || connectFromId === target.id) {
+      setConnectFromId(target.id)
+      setSelectedIds([target.id])
+      return
+    }
+    const fromId = connectFromId
+    setConnectFromId(null)
+    setActiveTool('select')
+    const label = askRelationshipLabel()
+    if (label === null) return
+    const now = new Date().toISOString()
+    const connector: ConnectorBlock = {
+      id: createId('C'),
+      type: 'connector',
+      fromId,
+      toId: target.id,
+      label: label.trim(),
+      x: 0,
+      y: 0,
+      width: 1,
+      createdAt: now,
+      updatedAt: now,
+    }
+    commitBlocks('Connect blocks', (prev) => [...prev, connector])
+    setSelectedIds([connector.id])
+  }
+
+  const editConnectorLabel = (connector: ConnectorBlock) => {
+    const label = askRelationshipLabel(connector.label)
+    if (label === null) return
+    handleUpdateBlock(connector.id, (current) => (isConnector(current) ? { ...current, label: label.trim() } : current))
   }
 
   const handleWheelZoom = (event: React.WheelEvent<HTMLDivElement>) => {
@@ -720,108 +1630,160 @@ export function Canvas() {
     const rect = scrollEl.getBoundingClientRect()
     const pointerX = event.clientX - rect.left
     const pointerY = event.clientY - rect.top
-    const canvasX = (scrollEl.scrollLeft + pointerX) / zoom
-    const canvasY = (scrollEl.scrollTop + pointerY) / zoom
-
-    setZoom(nextZoom)
-
-    const targetLeft = canvasX * nextZoom - pointerX
-    const targetTop = canvasY * nextZoom - pointerY
-    const maxScrollLeft = Math.max(0, CANVAS_WIDTH * nextZoom - scrollEl.clientWidth)
-    const maxScrollTop = Math.max(0, CANVAS_HEIGHT * nextZoom - scrollEl.clientHeight)
-    scrollEl.scrollTo({
-      left: Math.max(0, Math.min(targetLeft, maxScrollLeft)),
-      top: Math.max(0, Math.min(targetTop, maxScrollTop)),
-    })
+    const canvasX = (scrollEl.scrollLeft + pointerX) / zoom + world.minX
+    const canvasY = (scrollEl.scrollTop + pointerY) / zoom + world.minY
+    scrollCanvasPointTo(canvasX, canvasY, pointerX, pointerY, nextZoom)
   }
 
-  const handleUpdateBlock = (id: string, updater: (block: Block) => Block) => {
-    setBlocks((prev) =>
-      prev.map((block) => (block.id === id ? updater({ ...block, updatedAt: new Date().toISOString() }) : block))
+  const handleUpdateBlock = (id: string, updater: (block: Block) => Block, options: { record?: boolean } = {}) => {
+    commitBlocks(
+      'Edit block',
+      (prev) =>
+        prev.map((block) => {
+          if (block.id !== id) return block
+          const stamped = { ...block, updatedAt: new Date().toISOString() }
+          const next = updater(stamped)
+          return next === stamped ? block : next
+        }),
+      { record: options.record, mergeKey: `edit:${id}` }
     )
   }
 
-  const ensureRectInView = (rect: { x: number; y: number; width: number; height: number }) => {
+  /** Eases the view centre and zoom towards the target; jumps straight there when reduced motion is preferred. */
+  const animateViewTo = (x: number, y: number, nextZoom: number) => {
+    const view = getViewRect()
+    if (viewAnimationRef.current !== null) cancelAnimationFrame(viewAnimationRef.current)
+    viewAnimationRef.current = null
+    const reduceMotion = window.matchMedia?.('(prefers-reduced-motion: reduce)').matches
+    if (!view || reduceMotion) {
+      moveViewRef.current?.(x, y, nextZoom)
+      return
+    }
+    const startX = (view.minX + view.maxX) / 2
+    const startY = (view.minY + view.maxY) / 2
+    const startZoom = zoom
+    const startTime = performance.now()
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startTime) / VIEW_ANIMATION_MS)
+      const eased = t < 0.5 ? 4 * t * t * t : 1 - (-2 * t + 2) ** 3 / 2
+      moveViewRef.current?.(
+        startX + (x - startX) * eased,
+        startY + (y - startY) * eased,
+        startZoom + (nextZoom - startZoom) * eased
+      )
+      viewAnimationRef.current = t < 1 ? requestAnimationFrame(step) : null
+    }
+    viewAnimationRef.current = requestAnimationFrame(step)
+  }
+
+  /** Brings the rect into view, zooming to fit it if needed. `force` refits even when it is already visible. */
+  const ensureRectInView = (
+    rect: { x: number; y: number; width: number; height: number },
+    options: { force?: boolean } = {}
+  ) => {
     const scrollEl = scrollRef.current
     if (!scrollEl) return
     const padding = 80
     const padded = {
-      x: Math.max(0, rect.x - padding),
-      y: Math.max(0, rect.y - padding),
-      width: Math.min(CANVAS_WIDTH, rect.width + padding * 2),
-      height: Math.min(CANVAS_HEIGHT, rect.height + padding * 2),
-    }
-    const viewLeft = scrollEl.scrollLeft / zoom
-    const viewTop = scrollEl.scrollTop / zoom
-    const viewWidth = scrollEl.clientWidth / zoom
-    const viewHeight = scrollEl.clientHeight / zoom
-    const viewRight = viewLeft + viewWidth
-    const viewBottom = viewTop + viewHeight
+      x: rect.x - padding,
+      y: rect.y - padding,
+      width: rect.width + padding * 2,
+      height: rect.height + padding * 2,
+    }
+    const view = getViewRect()
     const paddedRight = padded.x + padded.width
     const paddedBottom = padded.y + padded.height
 
     const alreadyVisible =
-      viewLeft <= padded.x &&
-      viewTop <= padded.y &&
-      viewRight >= paddedRight &&
-      viewBottom >= paddedBottom
-    if (alreadyVisible) return
+      view &&
+      view.minX <= padded.x &&
+      view.minY <= padded.y &&
+      view.maxX >= paddedRight &&
+      view.maxY >= paddedBottom
+    if (alreadyVisible && !options.force) return
 
     const zoomToFit = Math.min(scrollEl.clientWidth / padded.width, scrollEl.clientHeight / padded.height)
     const nextZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoomToFit))
 
-    const centerX = padded.x + padded.width / 2
-    const centerY = padded.y + padded.height / 2
-    const targetLeft = centerX * nextZoom - scrollEl.clientWidth / 2
-    const targetTop = centerY * nextZoom - scrollEl.clientHeight / 2
-    const maxScrollLeft = Math.max(0, CANVAS_WIDTH * nextZoom - scrollEl.clientWidth)
-    const maxScrollTop = Math.max(0, CANVAS_HEIGHT * nextZoom - scrollEl.clientHeight)
-
-    setZoom(nextZoom)
-    scrollEl.scrollTo({
-      left: Math.max(0, Math.min(targetLeft, maxScrollLeft)),
-      top: Math.max(0, Math.min(targetTop, maxScrollTop)),
-    })
+    animateViewTo(padded.x + padded.width / 2, padded.y + padded.height / 2, nextZoom)
   }
 
   const persistSelectionSummary = (summary: SummaryBlock | null) => {
-    if (!summary) {
-      window.localStorage.removeItem(PANEL_SELECTION_KEY)
+    savePanelSummary(canvasId, 'selection', summary)
+    if (!summary) return
+    const referenced = new Set(
+      blocksRef.current.flatMap((b) => {
+        if (b.type === 'summary_ref') return [b.summaryId]
+        if (b.type === 'frame' && b.summaryId) return [b.summaryId]
+        return []
+      })
+    )
+    referenced.add(summary.id)
+    setSummaries((prev) => pruneSummaryVersions({ ...prev, [summary.id]: summary }, summary.scope.blockIds, referenced))
+  }
+
+  const restoreSummaryVersion = (summaryId: string) => {
+    const stored = summaries[summaryId]
+    if (!stored) return
+    setPanelSummary(stored)
+    setCompareVersionId(null)
+    savePanelSummary(canvasId, 'selection', stored)
+  }
+
+  const openStoredSummary = (summaryId: string) => {
+    const stored = summaries[summaryId]
+    if (stored) {
+      setPanelSummary(stored)
+      setCanvasSummary(null)
+      setQaQuestion('')
+      setCompareVersionId(null)
+      savePanelSummary(canvasId, 'selection', stored)
+      setPanelOpen(true)
       return
     }
-    try {
-      window.localStorage.setItem(PANEL_SELECTION_KEY, JSON.stringify(summary))
-    } catch (err) {
-      console.warn('Failed to persist selection summary', err)
+    if (canvasSummary?.id === summaryId) {
+      setPanelSummary(null)
+      setQaQuestion('')
+      setPanelOpen(true)
+      return
     }
+    showToast('The original summary is no longer available; showing its sources only.')
   }
 
-  const panToBlocks = (ids: string[]) => {
+  const panToBlocks = (ids: string[], source: Block[] = blocks, options: { force?: boolean } = {}) => {
     if (!ids.length) return
-    const targetBlocks = blocks.filter((b) => ids.includes(b.id))
+    const targetBlocks = source.filter((b) => ids.includes(b.id) && !isConnector(b))
     if (!targetBlocks.length) return
     const minX = Math.min(...targetBlocks.map((b) => b.x))
     const maxX = Math.max(...targetBlocks.map((b) => b.x + b.width))
     const minY = Math.min(...targetBlocks.map((b) => b.y))
     const maxY = Math.max(...targetBlocks.map((b) => b.y + getBlockHeight(b)))
-    ensureRectInView({
-      x: minX,
-      y: minY,
-      width: maxX - minX,
-      height: maxY - minY,
-    })
+    ensureRectInView(
+      {
+        x: minX,
+        y: minY,
+        width: maxX - minX,
+        height: maxY - minY,
+      },
+      options
+    )
+  }
+
+  const zoomToFitAll = () => panToBlocks(placedBlocks.map((b) => b.id), placedBlocks, { force: true })
+
+  const zoomToSelection = () => {
+    if (!selectedIds.length) {
+      showToast('Select some blocks to zoom to.')
+      return
+    }
+    panToBlocks(selectedIds, blocks, { force: true })
   }
 
   const addSummaryRefBlock = () => {
     const summary = panelSummary ?? canvasSummary
     if (!summary) return
-    const scrollEl = scrollRef.current
-    const viewCenter = scrollEl
-      ? {
-          x: scrollEl.scrollLeft / zoom + scrollEl.clientWidth / (2 * zoom),
-          y: scrollEl.scrollTop / zoom + scrollEl.clientHeight / (2 * zoom),
-        }
-      : { x: CANVAS_WIDTH / 2, y: CANVAS_HEIGHT / 2 }
+    const view = getViewRect()
+    const viewCenter = view ? { x: (view.minX + view.maxX) / 2, y: (view.minY + view.maxY) / 2 } : { x: 0, y: 0 }
     const width = 360
     const height = 180
     const previewLines = summary.summaryText
@@ -832,8 +1794,8 @@ export function Canvas() {
     const block: Block = {
       id: createId('SREF'),
       type: 'summary_ref',
-      x: Math.max(0, Math.min(viewCenter.x - width / 2, CANVAS_WIDTH - width)),
-      y: Math.max(0, Math.min(viewCenter.y - height / 2, CANVAS_HEIGHT - height)),
+      x: viewCenter.x - width / 2,
+      y: viewCenter.y - height / 2,
       width,
       height,
       summaryId: summary.id,
@@ -841,27 +1803,110 @@ export function Canvas() {
       preview: previewText,
       scopeBlockIds: summary.scope.blockIds,
       pastelColor,
-      createdAt: Date.now(),
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    }
+    commitBlocks('Add summary block', (prev) => [...prev, block])
+  }
+
+  const handleExport = () => {
+    const bundle = createBundle({ name: canvasName, zoom, blocks, summaries, canvasSummary: canvasSummary ?? undefined })
+    downloadFile(bundleFileName(canvasName), JSON.stringify(bundle, null, 2), 'application/json')
+  }
+
+  const handleExportSummary = (format: 'md' | 'html') => {
+    if (!activeSummary) return
+    const title = panelSummary ? panelSummary.title : `${canvasName} — canvas summary`
+    const doc = buildHandover({ ...activeSummary, title }, blocks)
+    if (format === 'md') {
+      downloadFile(handoverFileName(title, 'md'), handoverToMarkdown(doc, blocks), 'text/markdown')
+    } else {
+      downloadFile(handoverFileName(title, 'html'), handoverToHtml(doc, blocks), 'text/html')
     }
-    setBlocks((prev) => [...prev, block])
   }
 
+  const handleImportFile = async (file: File) => {
+    const result = parseBundle(await file.text())
+    if (!result.ok) {
+      showToast(`Import failed: ${result.error}`)
+      return
+    }
+    if (result.notices.length) showToast(result.notices.join(' '))
+    setPendingImport(result.bundle)
+  }
+
+  const applyImport = (mode: 'replace' | 'merge') => {
+    const bundle = pendingImport
+    setPendingImport(null)
+    if (!bundle) return
+    if (mode === 'replace') {
+      commitBlocks('Import canvas', () => bundle.blocks)
+      setSummaries(bundle.summaries)
+      setCanvasSummary(bundle.canvasSummary ?? null)
+      persistCanvasSummary(bundle.canvasSummary ?? null)
+      setPanelSummary(null)
+      persistSelectionSummary(null)
+      setPanelOpen(false)
+      if (bundle.zoom !== null) setZoom(Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, bundle.zoom)))
+      if (bundle.name) onRename(bundle.name)
+      setSelectedIds([])
+      showToast(`Replaced canvas with “${bundle.name}”.`)
+      return
+    }
+
+    const takenIds = new Set([...blocks.map((b) => b.id), ...Object.keys(summaries)])
+    const remapped = remapBundleIds(bundle, takenIds)
+    // Place the imported cluster to the right of the existing content so nothing overlaps.
+    const importedBoxes = remapped.blocks.filter((b) => !isConnector(b))
+    const existingRight = placedBlocks.length ? Math.max(...placedBlocks.map((b) => b.x + b.width)) : 0
+    const importedLeft = importedBoxes.length ? Math.min(...importedBoxes.map((b) => b.x)) : 0
+    const importedTop = importedBoxes.length ? Math.min(...importedBoxes.map((b) => b.y)) : 0
+    const existingTop = placedBlocks.length ? Math.min(...placedBlocks.map((b) => b.y)) : 0
+    const dx = placedBlocks.length ? existingRight + 160 - importedLeft : 0
+    const dy = placedBlocks.length ? existingTop - importedTop : 0
+    const placed = remapped.blocks.map((b) => ({ ...b, x: b.x + dx, y: b.y + dy }))
+    commitBlocks(`Merge “${bundle.name}”`, (prev) => [...prev, ...placed])
+    setSummaries((prev) => ({ ...prev, ...remapped.summaries }))
+    setSelectedIds(placed.filter((b) => !isConnector(b)).map((b) => b.id))
+    showToast(`Merged ${placed.length} block${placed.length === 1 ? '' : 's'} from “${bundle.name}”.`)
+    panToBlocks(placed.map((b) => b.id), placed)
+  }
+
+  /** Connectors between the given blocks, as plain "A because B" statements for the API. */
+  const formatRelationshipsForApi = (scopeBlocks: Block[]) =>
+    relationshipsWithin(blocks, scopeBlocks.map((b) => b.id)).map((r) => ({
+      from: r.fromId,
+      to: r.toId,
+      label: r.label,
+      text: describeRelationship(r),
+    }))
+
   const formatBlocksForApi = (selected: Block[]) =>
-    selected.map((b) => {
+    selected.filter((b) => !isConnector(b)).map((b) => {
+      const tags = b.tags?.length ? b.tags : undefined
       if (b.type === 'text') {
-        return { id: b.id, type: b.type, text: b.text }
+        return { id: b.id, type: b.type, text: b.text, tags }
       }
       if (b.type === 'link') {
-        return { id: b.id, type: b.type, label: b.label, url: b.url }
+        return { id: b.id, type: b.type, label: b.label, url: b.url, description: b.preview?.description, tags }
       }
       if (b.type === 'image') {
-        return { id: b.id, type: b.type, caption: b.src }
+        return { id: b.id, type: b.type, caption: b.caption, alt: b.alt, tags }
       }
       if (b.type === 'summary') {
-        return { id: b.id, type: b.type, text: b.summaryText }
+        return { id: b.id, type: b.type, text: b.summaryText, tags }
       }
       if (b.type === 'summary_ref') {
-        return { id: b.id, type: b.type, text: b.summaryText ?? b.preview ?? '', label: b.title }
+        return { id: b.id, type: b.type, text: b.summaryText ?? b.preview ?? '', label: b.title, tags }
+      }
+      if (b.type === 'frame') {
+        return { id: b.id, type: b.type, label: b.title, tags }
+      }
+      if (b.type === 'decision') {
+        return { id: b.id, type: b.type, text: describeDecision(b), status: b.status, tags }
+      }
+      if (b.type === 'checklist') {
+        return { id: b.id, type: b.type, text: checklistToText(b), tags }
       }
       return { id: b.id, type: b.type }
     })
@@ -870,6 +1915,7 @@ export function Canvas() {
     const payload = {
       mode: 'selection' as const,
       blocks: formatBlocksForApi(selected),
+      relationships: formatRelationshipsForApi(selected),
     }
     try {
       const response = await fetch('/api/summarize', {
@@ -904,6 +1950,7 @@ export function Canvas() {
     const payload = {
       question,
       blocks: formatBlocksForApi(scopeBlocks),
+      relationships: formatRelationshipsForApi(scopeBlocks),
     }
     try {
       const response = await fetch('/api/ask', {
@@ -934,28 +1981,29 @@ export function Canvas() {
     }
   }
 
-  const handleSummarize = async () => {
-    const selected = getSelectedBlocks()
-    if (selected.length < 1 || !selectionBounds || hasSummaryRefSelected) return
-    const content = summarizeSelection(selected)
+  /** Runs the local summarizer (or GPT when enabled) and records which provider and block versions it used. */
+  const generateSummary = async (scopeBlocks: Block[]): Promise<SummaryBlock | null> => {
+    const content = summarizeSelection(scopeBlocks, relationshipsWithin(blocks, scopeBlocks.map((b) => b.id)))
     let summaryText = content.summaryText
     let citations = content.citations
     let spans = content.spans
+    let provider: SummaryProvider = 'mock'
 
     if (useGpt) {
-      const result = await summarizeWithGpt(selected)
-      if (result?.abort) return
+      const result = await summarizeWithGpt(scopeBlocks)
+      if (result?.abort) return null
       if (result?.summaryText) {
         summaryText = result.summaryText
         citations = []
         spans = []
+        provider = 'gpt'
       } else if (result?.fallback) {
         // keep mock content
       }
     }
 
     const summarySize = { width: 360, height: 260 }
-    const newSummary: SummaryBlock = {
+    return {
       id: createId('SUM'),
       type: 'summary',
       title: content.title,
@@ -964,7 +2012,7 @@ export function Canvas() {
       summaryText,
       citations,
       spans,
-      scope: { kind: 'selection', blockIds: selected.map((b) => b.id) },
+      scope: { kind: 'selection', blockIds: scopeBlocks.map((b) => b.id) },
       qa: [],
       messages: [],
       x: 0,
@@ -973,36 +2021,236 @@ export function Canvas() {
       height: summarySize.height,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      provenance: {
+        provider,
+        sourceVersions: Object.fromEntries(scopeBlocks.map((b) => [b.id, contentVersion(b)])),
+      },
     }
-    setPanelSummary(newSummary)
+  }
+
+  const showSelectionSummary = (summary: SummaryBlock, compareId: string | null = null) => {
+    setPanelSummary(summary)
     setCanvasSummary(null)
     setQaQuestion('')
-    persistSelectionSummary(newSummary)
+    setCompareVersionId(compareId)
+    persistSelectionSummary(summary)
     setPanelOpen(true)
+    // Move focus into the panel so its actions are reachable without a pointer.
+    requestAnimationFrame(() => panelRef.current?.focus())
+  }
+
+  const handleSummarize = async () => {
+    const selected = getSelectedBlocks()
+    if (selected.length < 1 || !selectionBounds || hasSummaryRefSelected) return
+    const previous = summaryVersions(summaries, selected.map((b) => b.id))[0]
+    const newSummary = await generateSummary(selected)
+    if (newSummary) showSelectionSummary(newSummary, previous?.id ?? null)
   }
 
+  /** Generates a new version for the open summary's scope and shows the diff against the version it replaces. */
+  const handleRegenerate = async () => {
+    if (!panelSummary) return
+    const scopeBlocks = panelSummary.scope.blockIds.flatMap((id) => {
+      const block = blockLookup.get(id)
+      return block ? [block] : []
+    })
+    if (!scopeBlocks.length) {
+      showToast('The blocks behind this summary are no longer on the canvas.')
+      return
+    }
+    const newSummary = await generateSummary(scopeBlocks)
+    if (newSummary) showSelectionSummary(newSummary, panelSummary.id)
+  }
+
+  /** Summarizes whatever currently sits inside the frame and links the result to it. */
+  const handleSummarizeFrame = async (frameId: string) => {
+    const frame = blockLookup.get(frameId)
+    if (frame?.type !== 'frame') return
+    const scope = frameScope(frameMembers(frame, blocks, getBlockHeight))
+    if (!scope.length) {
+      showToast('Move some blocks into this area to summarize it.')
+      return
+    }
+    const previous = frame.summaryId ? summaries[frame.summaryId] : undefined
+    const generated = await generateSummary(scope)
+    if (!generated) return
+    const newSummary = { ...generated, title: frame.title }
+    commitBlocks('Summarize area', (prev) =>
+      prev.map((b) => (b.id === frameId && b.type === 'frame' ? { ...b, summaryId: newSummary.id } : b))
+    )
+    showSelectionSummary(newSummary, previous?.id ?? null)
+  }
+
+  const frameStatusFor = (frame: FrameBlock) => {
+    const scope = frameScope(frameMembers(frame, blocks, getBlockHeight))
+    return { memberCount: scope.length, summary: frameSummaryStatus(frame, scope, summaries, blockLookup) }
+  }
+
+  // Frames render first so they sit underneath the blocks they contain.
+  const renderOrder = [
+    ...placedBlocks.filter((b) => b.type === 'frame'),
+    ...placedBlocks.filter((b) => b.type !== 'frame'),
+  ]
+
   useEffect(() => {
     if (didInitialCenterRef.current) return
-    if (initialBlocksRef.current) return
     const el = scrollRef.current
-    if (!el || blocks.length === 0) return
-    const minX = Math.min(...blocks.map((b) => b.x))
-    const maxX = Math.max(...blocks.map((b) => b.x + b.width))
-    const minY = Math.min(...blocks.map((b) => b.y))
-    const maxY = Math.max(...blocks.map((b) => b.y + getBlockHeight(b)))
+    if (!el) return
+    didInitialCenterRef.current = true
+    const placed = blocks.filter((b) => !isConnector(b))
+    if (placed.length === 0) {
+      el.scrollLeft = -world.minX * zoom
+      el.scrollTop = -world.minY * zoom
+      return
+    }
+    const minX = Math.min(...placed.map((b) => b.x))
+    const maxX = Math.max(...placed.map((b) => b.x + b.width))
+    const minY = Math.min(...placed.map((b) => b.y))
+    const maxY = Math.max(...placed.map((b) => b.y + getBlockHeight(b)))
+    if (initialLoad.blocks) {
+      // Saved canvases open at their top-left corner, like they did on the old fixed-size board.
+      el.scrollLeft = (Math.min(0, minX) - world.minX) * zoom
+      el.scrollTop = (Math.min(0, minY) - world.minY) * zoom
+      return
+    }
     const centerX = (minX + maxX) / 2
     const centerY = (minY + maxY) / 2
-    const targetLeft = centerX * zoom - el.clientWidth / 2
-    const targetTop = centerY * zoom - el.clientHeight / 2
-    el.scrollLeft = Math.max(0, targetLeft)
-    el.scrollTop = Math.max(0, targetTop)
-    didInitialCenterRef.current = true
-  }, [blocks, zoom])
+    el.scrollLeft = (centerX - world.minX) * zoom - el.clientWidth / 2
+    el.scrollTop = (centerY - world.minY) * zoom - el.clientHeight / 2
+  }, [blocks, zoom, initialLoad.blocks, world.minX, world.minY])
+
+  // When the board grows or shrinks on the top/left, shift the scroll position so the content stays put;
+  // after a zoom change, apply the scroll that keeps the zoom anchor in place.
+  useLayoutEffect(() => {
+    const el = scrollRef.current
+    const previous = originRef.current
+    originRef.current = { x: world.minX, y: world.minY }
+    if (!el) return
+    const pending = pendingScrollRef.current
+    if (pending) {
+      pendingScrollRef.current = null
+      el.scrollLeft = (pending.x - world.minX) * zoom - pending.offsetX
+      el.scrollTop = (pending.y - world.minY) * zoom - pending.offsetY
+      return
+    }
+    if (previous && (previous.x !== world.minX || previous.y !== world.minY)) {
+      el.scrollLeft += (previous.x - world.minX) * zoom
+      el.scrollTop += (previous.y - world.minY) * zoom
+    }
+  }, [world.minX, world.minY, zoom])
+
+  useEffect(() => {
+    const isEditable = (target: EventTarget | null) => {
+      const el = target as HTMLElement | null
+      return Boolean(el && (['INPUT', 'TEXTAREA', 'SELECT'].includes(el.tagName) || el.isContentEditable))
+    }
+    // Space activates focused buttons, links and button-like controls; those keep it instead of panning.
+    const isActivatable = (target: EventTarget | null) =>
+      target instanceof Element &&
+      Boolean(target.closest('button, a[href], summary, [role="button"], [role="checkbox"], [role="menuitem"], [role="tab"], [role="option"]'))
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.code !== 'Space' || isEditable(event.target) || isActivatable(event.target)) return
+      event.preventDefault()
+      setSpaceHeld(true)
+    }
+    const handleKeyUp = (event: KeyboardEvent) => {
+      if (event.code === 'Space') setSpaceHeld(false)
+    }
+    const handleBlur = () => setSpaceHeld(false)
+    window.addEventListener('keydown', handleKeyDown)
+    window.addEventListener('keyup', handleKeyUp)
+    window.addEventListener('blur', handleBlur)
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown)
+      window.removeEventListener('keyup', handleKeyUp)
+      window.removeEventListener('blur', handleBlur)
+    }
+  }, [])
+
+  /** Space+drag or middle-mouse drag pans the view, wherever the pointer starts (blocks included). */
+  const handlePanPointerDown = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const scrollEl = scrollRef.current
+    if (!scrollEl || !(event.button === 1 || (event.button === 0 && spaceHeld))) return
+    event.preventDefault()
+    event.stopPropagation()
+    panRef.current = {
+      pointerId: event.pointerId,
+      startX: event.clientX,
+      startY: event.clientY,
+      scrollLeft: scrollEl.scrollLeft,
+      scrollTop: scrollEl.scrollTop,
+    }
+    setIsPanning(true)
+    scrollEl.setPointerCapture(event.pointerId)
+  }
+
+  const handlePanPointerMove = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current
+    const scrollEl = scrollRef.current
+    if (!pan || !scrollEl || pan.pointerId !== event.pointerId) return
+    scrollEl.scrollLeft = pan.scrollLeft - (event.clientX - pan.startX)
+    scrollEl.scrollTop = pan.scrollTop - (event.clientY - pan.startY)
+  }
+
+  const handlePanPointerEnd = (event: ReactPointerEvent<HTMLDivElement>) => {
+    const pan = panRef.current
+    if (!pan || pan.pointerId !== event.pointerId) return
+    panRef.current = null
+    setIsPanning(false)
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId)
+    }
+  }
+
+  const handleScroll = () => {
+    const scrollEl = scrollRef.current
+    if (scrollEl) {
+      setScrollMetrics({
+        left: scrollEl.scrollLeft,
+        top: scrollEl.scrollTop,
+        width: scrollEl.clientWidth,
+        height: scrollEl.clientHeight,
+      })
+    }
+    const view = getViewRect()
+    if (!view) return
+    const edge = WORLD_MARGIN / 2
+    const nearEdge =
+      view.minX - world.minX < edge ||
+      view.minY - world.minY < edge ||
+      world.minX + world.width - view.maxX < edge ||
+      world.minY + world.height - view.maxY < edge
+    if (!nearEdge) return
+    setExplored((prev) =>
+      prev
+        ? {
+            minX: Math.min(prev.minX, view.minX),
+            minY: Math.min(prev.minY, view.minY),
+            maxX: Math.max(prev.maxX, view.maxX),
+            maxY: Math.max(prev.maxY, view.maxY),
+          }
+        : view
+    )
+  }
 
   return (
-    <div className="canvas-scroll" role="region" aria-label="Canvas" ref={scrollRef}>
+    <div
+      className={`canvas-scroll ${spaceHeld || isPanning ? 'pan-ready' : ''} ${isPanning ? 'panning' : ''}`}
+      role="region"
+      aria-label="Canvas"
+      ref={scrollRef}
+      onScroll={handleScroll}
+      onPointerDownCapture={handlePanPointerDown}
+      onPointerMove={handlePanPointerMove}
+      onPointerUp={handlePanPointerEnd}
+      onPointerCancel={handlePanPointerEnd}
+      onMouseDown={(e) => {
+        // Stops the browser's middle-click autoscroll from fighting the pan.
+        if (e.button === 1) e.preventDefault()
+      }}
+    >
       <div className="toolbox">
-        {(['select', 'text', 'image', 'link'] as Tool[]).map((tool) => (
+        {(['select', 'text', 'image', 'link', 'decision', 'checklist', 'frame', 'connect'] as Tool[]).map((tool) => (
           <button
             key={tool}
             className={`tool-btn ${activeTool === tool ? 'active' : ''}`}
@@ -1013,19 +2261,119 @@ export function Canvas() {
               {tool === 'text' && '✏️'}
               {tool === 'image' && '🖼️'}
               {tool === 'link' && '🔗'}
+              {tool === 'decision' && '⚖️'}
+              {tool === 'checklist' && '☑️'}
+              {tool === 'frame' && '🔲'}
+              {tool === 'connect' && '↗️'}
             </span>
             <span className="tool-label">{tool}</span>
           </button>
         ))}
       </div>
+      <div className="toolbox toolbox-file">
+        <button className="tool-btn" onClick={handleExport} title="Download this canvas as a .recap.json bundle">
+          <span className="tool-emoji">⬇️</span>
+          <span className="tool-label">export</span>
+        </button>
+        <button
+          className="tool-btn"
+          onClick={() => importInputRef.current?.click()}
+          title="Import a .recap.json bundle"
+        >
+          <span className="tool-emoji">⬆️</span>
+          <span className="tool-label">import</span>
+        </button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0]
+            e.target.value = ''
+            if (file) void handleImportFile(file)
+          }}
+        />
+      </div>
+      {pendingImport && (
+        <ImportDialog
+          bundle={pendingImport}
+          onReplace={() => applyImport('replace')}
+          onMerge={() => applyImport('merge')}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
       <div className="zoom-controls">
+        <button
+          className="zoom-btn"
+          onClick={() => stepHistory('undo')}
+          disabled={!history.undo.length}
+          title={history.undo.length ? `Undo ${history.undo[history.undo.length - 1].label} (Ctrl/Cmd+Z)` : 'Nothing to undo'}
+        >
+          Undo
+        </button>
+        <button
+          className="zoom-btn"
+          onClick={() => stepHistory('redo')}
+          disabled={!history.redo.length}
+          title={history.redo.length ? `Redo ${history.redo[history.redo.length - 1].label} (Ctrl/Cmd+Shift+Z)` : 'Nothing to redo'}
+        >
+          Redo
+        </button>
         <button className="zoom-btn" onClick={() => adjustZoom(0.1)}>
           Zoom +
         </button>
         <button className="zoom-btn" onClick={() => adjustZoom(-0.1)}>
           Zoom -
         </button>
+        <button
+          className={`zoom-btn ${snapToGrid ? 'active' : ''}`}
+          onClick={() => setSnapToGrid((prev) => !prev)}
+          aria-pressed={snapToGrid}
+          title={`Snap dragged blocks to a ${SNAP_GRID}px grid when no guide is nearby`}
+        >
+          Grid snap
+        </button>
+        <button className="zoom-btn" onClick={zoomToFitAll} title="Fit all content (Shift+1)">
+          Fit all
+        </button>
+        <button
+          className="zoom-btn"
+          onClick={zoomToSelection}
+          disabled={!selectedIds.length}
+          title="Zoom to selection (Shift+2)"
+        >
+          Fit selection
+        </button>
       </div>
+      {searchOpen && (
+        <SearchPanel
+          query={searchQuery}
+          results={searchResults}
+          activeIndex={activeSearchIndex}
+          inputRef={searchInputRef}
+          describeResult={(result) => `${result.blockId} · ${result.field}`}
+          onQueryChange={handleSearchChange}
+          onStep={stepSearch}
+          onSelect={(index) => goToSearchResult(searchResults, index)}
+          onClose={closeSearch}
+        />
+      )}
+      <Minimap
+        blocks={placedBlocks}
+        heightOf={getBlockHeight}
+        view={
+          scrollMetrics.width
+            ? {
+                minX: scrollMetrics.left / zoom + world.minX,
+                minY: scrollMetrics.top / zoom + world.minY,
+                maxX: (scrollMetrics.left + scrollMetrics.width) / zoom + world.minX,
+                maxY: (scrollMetrics.top + scrollMetrics.height) / zoom + world.minY,
+              }
+            : null
+        }
+        onNavigate={(x, y) => moveViewRef.current?.(x, y, zoom)}
+      />
       {import.meta.env.DEV && (
         <div className="dev-reset">
           <div className="gpt-toggle">
@@ -1057,113 +2405,245 @@ export function Canvas() {
             onClick={() => {
               const confirmReset = window.confirm('Resets the canvas to the original handover state. Changes made this session will be cleared.')
               if (!confirmReset) return
-              try {
-                window.localStorage.removeItem(STORAGE_KEY)
-                window.localStorage.removeItem('recap-canvas:zoom')
-                // Remove any zoom key if present in the future.
-                window.location.reload()
-              } catch (err) {
-                console.warn('Reset failed', err)
-              }
+              void clearCanvasData(canvasId).then(() => window.location.reload())
             }}
           >
             Reset Canvas
           </button>
         </div>
       )}
-      <div
-        className="canvas"
-        style={{
-          cursor: activeTool === 'select' ? 'default' : 'crosshair',
-          transform: `scale(${zoom})`,
-          transformOrigin: 'top left',
-        }}
-        onPointerDown={handleCanvasPointerDown}
-        onPointerMove={handleCanvasPointerMove}
-        onPointerUp={handleCanvasPointerEnd}
-        onPointerCancel={handleCanvasPointerEnd}
-        onWheel={handleWheelZoom}
-      >
-        {selectionBounds && selectedIds.length >= 1 && !hasSummaryRefSelected && (
-          <button
-            className="summarize-action"
-            style={{
-              left: (selectionBounds.minX + selectionBounds.maxX) / 2,
-              top: Math.max(selectionBounds.minY - 12, 6),
-              transform: 'translate(-50%, 0)',
-            }}
-            onClick={(e) => {
-              e.stopPropagation()
-              void handleSummarize()
-            }}
-            onPointerDown={(e) => e.stopPropagation()}
+      <div className="canvas-sizer" style={{ width: world.width * zoom, height: world.height * zoom }}>
+        <div
+          className={`canvas ${fileDragActive ? 'file-drop' : ''}`}
+          style={{
+            width: world.width,
+            height: world.height,
+            cursor: activeTool === 'select' ? undefined : 'crosshair',
+            transform: `scale(${zoom})`,
+            transformOrigin: 'top left',
+            backgroundPosition: `${-world.minX}px ${-world.minY}px`,
+          }}
+          onPointerDown={handleCanvasPointerDown}
+          onPointerMove={handleCanvasPointerMove}
+          onPointerUp={handleCanvasPointerEnd}
+          onPointerCancel={handleCanvasPointerEnd}
+          onWheel={handleWheelZoom}
+          onDragOver={handleFileDragOver}
+          onDragLeave={handleFileDragLeave}
+          onDrop={(event) => void handleFileDrop(event)}
+        >
+          <div
+            className="canvas-world"
+            style={{ left: -world.minX, top: -world.minY }}
+            role="group"
+            aria-label="Blocks (Tab or arrow keys to move between blocks, Space to select, Enter to edit)"
+            onKeyDown={handleBlockKeyDown}
           >
-            Summarize selection
-          </button>
-        )}
-        {blocks.map((block) => (
-          <BlockView
-            key={block.id}
-            block={block}
-            selected={selectedIds.includes(block.id)}
-            highlight={activeHighlightSet.has(block.id)}
-            dimmed={activeHighlightSet.size > 0 && !activeHighlightSet.has(block.id)}
-            zoom={zoom}
-            onPositionChange={handlePositionChange}
-            onUpdate={handleUpdateBlock}
-            onDelete={(id) => deleteBlocks([id])}
-            onSelect={(clickedBlock, mode) => {
-              if (clickedBlock.type === 'summary_ref') {
-                const targetIds = [clickedBlock.id, ...clickedBlock.scopeBlockIds]
-                const isSamePinned =
-                  pinnedHighlightIds.length === targetIds.length &&
-                  targetIds.every((id) => pinnedHighlightIds.includes(id))
-                if (isSamePinned) {
-                  setPinnedHighlightIds([])
-                  setHoverHighlightIds([])
-                  setSelectedIds([])
-                } else {
-                  setPinnedHighlightIds(targetIds)
-                  setHoverHighlightIds([])
-                  setSelectedIds([clickedBlock.id])
-                  panToBlocks(clickedBlock.scopeBlockIds)
-                }
-                return
-              }
-              if (mode === 'single') {
-                setSelectedIds([clickedBlock.id])
-              } else {
-                setSelectedIds((prev) =>
-                  prev.includes(clickedBlock.id) ? prev.filter((existing) => existing !== clickedBlock.id) : [...prev, clickedBlock.id]
+            {selectionBounds && selectedIds.length >= 1 && !hasSummaryRefSelected && (
+              <button
+                ref={summarizeButtonRef}
+                className="summarize-action"
+                aria-label={`Summarize ${selectedIds.length} selected block${selectedIds.length === 1 ? '' : 's'}`}
+                style={{
+                  left: (selectionBounds.minX + selectionBounds.maxX) / 2,
+                  top: selectionBounds.minY - 12,
+                  transform: 'translate(-50%, 0)',
+                }}
+                onClick={(e) => {
+                  e.stopPropagation()
+                  void handleSummarize()
+                }}
+                onPointerDown={(e) => e.stopPropagation()}
+              >
+                Summarize selection
+              </button>
+            )}
+            <svg className="connector-layer" aria-label="Connections between blocks">
+              <defs>
+                <marker id="connector-arrow" viewBox="0 0 10 10" refX="9" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                  <path d="M 0 0 L 10 5 L 0 10 z" />
+                </marker>
+              </defs>
+              {connectors.map((connector) => {
+                const from = blockLookup.get(connector.fromId)
+                const to = blockLookup.get(connector.toId)
+                if (!from || !to) return null
+                const line = connectorGeometry(
+                  { x: from.x, y: from.y, width: from.width, height: getBlockHeight(from) },
+                  { x: to.x, y: to.y, width: to.width, height: getBlockHeight(to) }
                 )
-              }
-            }}
-            lookupBlock={(id) => blockLookup.get(id)}
-            onCitationHover={handleCitationHover}
-            onCitationLeave={handleCitationLeave}
-            onCitationClick={handleCitationClick}
-            onClearHighlight={handleClearHighlight}
-            hasPinnedHighlight={pinnedHighlightIds.length > 0}
-            activeHighlightIds={activeHighlightIds}
-          />
-        ))}
-        {selection.active && (() => {
-          const rect = getSelectionRect()
-          if (!rect) return null
-          return (
-            <div
-              className="selection-rect"
-              style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
-            />
-          )
-        })()}
+                const isSelected = selectedIds.includes(connector.id)
+                return (
+                  <g
+                    key={connector.id}
+                    className={`connector ${isSelected ? 'selected' : ''}`}
+                    onPointerDown={(e) => e.stopPropagation()}
+                    onClick={() => setSelectedIds([connector.id])}
+                    onDoubleClick={() => editConnectorLabel(connector)}
+                  >
+                    <title>{describeRelationship(connector)}</title>
+                    <line className="connector-hit" x1={line.x1} y1={line.y1} x2={line.x2} y2={line.y2} />
+                    <line
+                      className="connector-line"
+                      x1={line.x1}
+                      y1={line.y1}
+                      x2={line.x2}
+                      y2={line.y2}
+                      markerEnd="url(#connector-arrow)"
+                    />
+                    {connector.label && (
+                      <text className="connector-label" x={line.midX} y={line.midY - 6} textAnchor="middle">
+                        {connector.label}
+                      </text>
+                    )}
+                  </g>
+                )
+              })}
+            </svg>
+            {selectionBounds && (selectedBlocks.length >= 2 || hasTextSelected) && (
+              <div
+                className="arrange-bar"
+                role="toolbar"
+                aria-label="Arrange selected blocks"
+                style={{ left: (selectionBounds.minX + selectionBounds.maxX) / 2, top: selectionBounds.maxY + 12 }}
+                onPointerDown={(e) => e.stopPropagation()}
+              >
+                {selectedBlocks.length >= 2 && ALIGN_ACTIONS.map((action) => (
+                  <button
+                    key={action.mode}
+                    className="arrange-btn"
+                    title={action.label}
+                    aria-label={action.label}
+                    onClick={() => alignSelection(action.mode)}
+                  >
+                    {action.icon}
+                  </button>
+                ))}
+                {selectedBlocks.length >= 3 && (
+                  <>
+                    <button className="arrange-btn" onClick={() => distributeSelection('x')} title="Distribute horizontally">
+                      ⟷ Space
+                    </button>
+                    <button className="arrange-btn" onClick={() => distributeSelection('y')} title="Distribute vertically">
+                      ↕ Space
+                    </button>
+                  </>
+                )}
+                {selectedBlocks.length >= 2 && (
+                  <button className="arrange-btn" onClick={tidySelection} title="Pack into a tidy, non-overlapping layout">
+                    Tidy
+                  </button>
+                )}
+                {hasTextSelected && (
+                  <button
+                    className="arrange-btn"
+                    onClick={extractSelectionActionItems}
+                    title="Collect action items from the selected notes into a new checklist"
+                  >
+                    ☑ Extract action items
+                  </button>
+                )}
+              </div>
+            )}
+            {renderOrder.map((block) => (
+              <BlockView
+                key={block.id}
+                block={block}
+                selected={selectedIds.includes(block.id)}
+                highlight={activeHighlightSet.has(block.id)}
+                dimmed={activeHighlightSet.size > 0 && !activeHighlightSet.has(block.id)}
+                zoom={zoom}
+                onPositionChange={handlePositionChange}
+                onUpdate={handleUpdateBlock}
+                onGestureStart={handleGestureStart}
+                onGestureEnd={handleGestureEnd}
+                onDelete={(id) => deleteBlocks([id])}
+                onSelect={(clickedBlock, mode) => {
+                  if (activeTool === 'connect') {
+                    handleConnectClick(clickedBlock)
+                    return
+                  }
+                  if (clickedBlock.type === 'summary_ref') {
+                    const targetIds = [clickedBlock.id, ...clickedBlock.scopeBlockIds]
+                    const isSamePinned =
+                      pinnedHighlightIds.length === targetIds.length &&
+                      targetIds.every((id) => pinnedHighlightIds.includes(id))
+                    if (isSamePinned) {
+                      setPinnedHighlightIds([])
+                      setHoverHighlightIds([])
+                      setSelectedIds([])
+                    } else {
+                      setPinnedHighlightIds(targetIds)
+                      setHoverHighlightIds([])
+                      setSelectedIds([clickedBlock.id])
+                      panToBlocks(clickedBlock.scopeBlockIds)
+                      openStoredSummary(clickedBlock.summaryId)
+                    }
+                    return
+                  }
+                  if (mode === 'single') {
+                    setSelectedIds([clickedBlock.id])
+                  } else {
+                    setSelectedIds((prev) =>
+                      prev.includes(clickedBlock.id) ? prev.filter((existing) => existing !== clickedBlock.id) : [...prev, clickedBlock.id]
+                    )
+                  }
+                }}
+                lookupBlock={(id) => blockLookup.get(id)}
+                onCitationHover={handleCitationHover}
+                onCitationLeave={handleCitationLeave}
+                onCitationClick={handleCitationClick}
+                onClearHighlight={handleClearHighlight}
+                hasPinnedHighlight={pinnedHighlightIds.length > 0}
+                activeHighlightIds={activeHighlightIds}
+                frameStatus={block.type === 'frame' ? frameStatusFor(block) : undefined}
+                onSummarizeFrame={(id) => void handleSummarizeFrame(id)}
+                onOpenSummary={openStoredSummary}
+                onUnfurlLink={(id, url, manual) => void unfurlLink(id, url, manual)}
+              />
+            ))}
+            {snapGuides.map((guide, idx) => (
+              <div
+                key={idx}
+                className={`snap-guide snap-guide-${guide.axis}`}
+                style={
+                  guide.axis === 'x'
+                    ? { left: guide.position, top: guide.start, height: guide.end - guide.start }
+                    : { top: guide.position, left: guide.start, width: guide.end - guide.start }
+                }
+              />
+            ))}
+            {selection.active && (() => {
+              const rect = getSelectionRect()
+              if (!rect) return null
+              return (
+                <div
+                  className="selection-rect"
+                  style={{ left: rect.x, top: rect.y, width: rect.width, height: rect.height }}
+                />
+              )
+            })()}
+          </div>
+        </div>
       </div>
       {panelOpen && (panelSummary || canvasSummary) && (
-        <aside className="summary-panel" style={{ width: `${panelWidth}px` }}>
+        <aside
+          className="summary-panel"
+          style={{ width: `${panelWidth}px` }}
+          ref={panelRef}
+          tabIndex={-1}
+          aria-label="Summary panel"
+        >
           <div
             className="summary-panel-resize"
             onPointerDown={handlePanelResizeStart}
+            onKeyDown={handlePanelResizeKey}
+            tabIndex={0}
             role="separator"
+            aria-orientation="vertical"
+            aria-valuemin={SUMMARY_PANEL_MIN_WIDTH}
+            aria-valuemax={SUMMARY_PANEL_MAX_WIDTH}
+            aria-valuenow={panelWidth}
             aria-label="Resize summary panel"
           />
           <div className="summary-panel-header">
@@ -1180,6 +2660,27 @@ export function Canvas() {
               >
                 Add block
               </button>
+              {panelSummary && (
+                <button className="summary-panel-close" onClick={() => void handleRegenerate()}>
+                  Regenerate
+                </button>
+              )}
+              <button
+                className="summary-panel-close"
+                disabled={!activeSummary}
+                onClick={() => handleExportSummary('md')}
+                title="Download as Markdown with footnoted sources"
+              >
+                .md
+              </button>
+              <button
+                className="summary-panel-close"
+                disabled={!activeSummary}
+                onClick={() => handleExportSummary('html')}
+                title="Download as a self-contained HTML document"
+              >
+                .html
+              </button>
               <button
                 className="summary-panel-close"
                 onClick={() => {
@@ -1202,6 +2703,14 @@ export function Canvas() {
                     {line}
                   </p>
                 ))}
+                <SummaryVersions
+                  versions={summaryVersions(summaries, panelSummary.scope.blockIds)}
+                  activeId={panelSummary.id}
+                  compareId={compareVersionId}
+                  blockLookup={blockLookup}
+                  onCompare={setCompareVersionId}
+                  onRestore={restoreSummaryVersion}
+                />
               </div>
             )}
             {canvasSummary && (
@@ -1318,9 +2827,12 @@ export function Canvas() {
                       createdAt: number
                     }) => {
                       setQaQuestion('')
+                      // Build on the thread as it was when the question was sent, so the
+                      // user's message is kept and only the "Thinking…" placeholder is replaced.
                       if (panelSummary) {
                         const updatedMessages = [
-                          ...(panelSummary.messages ?? []).slice(0, -1),
+                          ...(panelSummary.messages ?? []),
+                          userMessage,
                           assistantMessage,
                         ]
                         const updated = { ...panelSummary, messages: updatedMessages }
@@ -1328,7 +2840,8 @@ export function Canvas() {
                         persistSelectionSummary(updated)
                       } else if (canvasSummary) {
                         const updatedMessages = [
-                          ...(canvasSummary.messages ?? []).slice(0, -1),
+                          ...(canvasSummary.messages ?? []),
+                          userMessage,
                           assistantMessage,
                         ]
                         const updated = { ...canvasSummary, messages: updatedMessages }
@@ -1339,13 +2852,11 @@ export function Canvas() {
 
                     const handleAbort = () => {
                       if (panelSummary) {
-                        const trimmed = (panelSummary.messages ?? []).slice(0, -1)
-                        const updated = { ...panelSummary, messages: trimmed }
+                        const updated = { ...panelSummary, messages: panelSummary.messages ?? [] }
                         setPanelSummary(updated)
                         persistSelectionSummary(updated)
                       } else if (canvasSummary) {
-                        const trimmed = (canvasSummary.messages ?? []).slice(0, -1)
-                        const updated = { ...canvasSummary, messages: trimmed }
+                        const updated = { ...canvasSummary, messages: canvasSummary.messages ?? [] }
                         setCanvasSummary(updated)
                         persistCanvasSummary(updated)
                       }
@@ -1398,6 +2909,7 @@ export function Canvas() {
         )}
         </aside>
       )}
+      <StorageIndicator usage={storageUsage} saveError={saveError} />
       {toastMessage && (
         <div className="toast" role="status">
           {toastMessage}
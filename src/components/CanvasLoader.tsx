@@ -0,0 +1,34 @@
+import { useEffect, useState } from 'react'
+import { Canvas } from './Canvas'
+import { loadState } from '../state/persistence'
+import type { LoadResult } from '../state/persistence'
+
+type CanvasLoaderProps = {
+  canvasId: string
+  canvasName: string
+  onRename: (name: string) => void
+}
+
+/** Loads a canvas from storage (async for IndexedDB) before mounting the board. */
+export function CanvasLoader({ canvasId, canvasName, onRename }: CanvasLoaderProps) {
+  const [loaded, setLoaded] = useState<LoadResult | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    void loadState(canvasId).then((result) => {
+      if (!cancelled) setLoaded(result)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [canvasId])
+
+  if (!loaded) {
+    return (
+      <div className="canvas-scroll canvas-loading" role="status">
+        Loading canvas…
+      </div>
+    )
+  }
+  return <Canvas canvasId={canvasId} canvasName={canvasName} initialLoad={loaded} onRename={onRename} />
+}
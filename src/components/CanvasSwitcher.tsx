@@ -0,0 +1,36 @@
+import type { CanvasMeta } from '../state/persistence'
+
+type CanvasSwitcherProps = {
+  canvases: CanvasMeta[]
+  activeId: string
+  onSwitch: (id: string) => void
+  onCreate: () => void
+  onDuplicate: () => void
+  onDelete: () => void
+}
+
+export function CanvasSwitcher({ canvases, activeId, onSwitch, onCreate, onDuplicate, onDelete }: CanvasSwitcherProps) {
+  return (
+    <div className="canvas-switcher">
+      <label className="canvas-switcher-select">
+        <span className="eyebrow">Canvas</span>
+        <select value={activeId} onChange={(e) => onSwitch(e.target.value)}>
+          {canvases.map((c) => (
+            <option key={c.id} value={c.id}>
+              {c.name || 'Untitled canvas'}
+            </option>
+          ))}
+        </select>
+      </label>
+      <button className="canvas-switcher-btn" onClick={onCreate}>
+        New
+      </button>
+      <button className="canvas-switcher-btn" onClick={onDuplicate}>
+        Duplicate
+      </button>
+      <button className="canvas-switcher-btn danger" onClick={onDelete} disabled={canvases.length <= 1}>
+        Delete
+      </button>
+    </div>
+  )
+}
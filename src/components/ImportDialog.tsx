@@ -0,0 +1,38 @@
+import type { CanvasBundle } from '../state/bundle'
+
+type ImportDialogProps = {
+  bundle: CanvasBundle
+  onReplace: () => void
+  onMerge: () => void
+  onCancel: () => void
+}
+
+export function ImportDialog({ bundle, onReplace, onMerge, onCancel }: ImportDialogProps) {
+  const summaryCount = Object.keys(bundle.summaries).length
+  return (
+    <div className="import-dialog-backdrop" onPointerDown={(e) => e.stopPropagation()}>
+      <div className="import-dialog" role="dialog" aria-modal="true" aria-labelledby="import-dialog-title">
+        <h3 id="import-dialog-title">Import “{bundle.name}”</h3>
+        <p className="summary-label">
+          {bundle.blocks.length} block{bundle.blocks.length === 1 ? '' : 's'}, {summaryCount} summar
+          {summaryCount === 1 ? 'y' : 'ies'} · exported {new Date(bundle.exportedAt).toLocaleString()}
+        </p>
+        <p className="import-dialog-hint">
+          Replace swaps out everything on this canvas. Merge adds the imported blocks next to the existing ones and
+          renames any clashing IDs.
+        </p>
+        <div className="import-dialog-actions">
+          <button className="summary-panel-close" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="summary-panel-close" onClick={onMerge}>
+            Merge into canvas
+          </button>
+          <button className="summary-add-btn" onClick={onReplace}>
+            Replace canvas
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
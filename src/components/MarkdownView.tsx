@@ -0,0 +1,94 @@
+import { parseInline, parseMarkdown } from '../state/markdown'
+
+type MarkdownViewProps = {
+  source: string
+  /** Called with the source line of a task box that was clicked. */
+  onToggleTask: (line: number) => void
+}
+
+const stopPointer = (event: { stopPropagation: () => void }) => event.stopPropagation()
+
+function Inline({ text }: { text: string }) {
+  return (
+    <>
+      {parseInline(text).map((part, idx) => {
+        switch (part.kind) {
+          case 'strong':
+            return <strong key={idx}>{part.text}</strong>
+          case 'em':
+            return <em key={idx}>{part.text}</em>
+          case 'code':
+            return <code key={idx}>{part.text}</code>
+          case 'link':
+            return (
+              <a key={idx} href={part.url} target="_blank" rel="noreferrer" onClick={stopPointer} onPointerDown={stopPointer}>
+                {part.text}
+              </a>
+            )
+          case 'text':
+            return part.text
+        }
+      })}
+    </>
+  )
+}
+
+export function MarkdownView({ source, onToggleTask }: MarkdownViewProps) {
+  return (
+    <>
+      {parseMarkdown(source).map((node, idx) => {
+        switch (node.kind) {
+          case 'heading': {
+            const Heading = `h${Math.min(6, node.level + 2)}` as 'h3' | 'h4' | 'h5' | 'h6'
+            return (
+              <Heading key={idx} className="md-heading">
+                <Inline text={node.text} />
+              </Heading>
+            )
+          }
+          case 'paragraph':
+            return (
+              <p key={idx}>
+                {node.lines.map((line, lineIdx) => (
+                  <span key={lineIdx}>
+                    {lineIdx > 0 && <br />}
+                    <Inline text={line} />
+                  </span>
+                ))}
+              </p>
+            )
+          case 'list': {
+            const List = node.ordered ? 'ol' : 'ul'
+            return (
+              <List key={idx} className={node.items.some((item) => item.checked !== null) ? 'md-tasks' : undefined}>
+                {node.items.map((item) => (
+                  <li key={item.line} style={item.depth ? { marginLeft: item.depth * 16 } : undefined}>
+                    {item.checked !== null && (
+                      <input
+                        type="checkbox"
+                        checked={item.checked}
+                        aria-label={`Mark “${item.text}” as ${item.checked ? 'not done' : 'done'}`}
+                        onClick={stopPointer}
+                        onPointerDown={stopPointer}
+                        onChange={() => onToggleTask(item.line)}
+                      />
+                    )}
+                    <Inline text={item.text} />
+                  </li>
+                ))}
+              </List>
+            )
+          }
+          case 'code':
+            return (
+              <pre key={idx}>
+                <code>{node.text}</code>
+              </pre>
+            )
+          case 'rule':
+            return <hr key={idx} />
+        }
+      })}
+    </>
+  )
+}
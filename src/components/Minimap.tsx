@@ -0,0 +1,87 @@
+import { useRef, useState } from 'react'
+import type { PointerEvent } from 'react'
+import type { Block } from '../models/canvas'
+
+type Bounds = { minX: number; minY: number; maxX: number; maxY: number }
+
+type MinimapProps = {
+  /** Blocks with a box of their own (no connectors). */
+  blocks: Block[]
+  heightOf: (block: Block) => number
+  view: Bounds | null
+  /** Centre the viewport on this canvas point. */
+  onNavigate: (x: number, y: number) => void
+}
+
+const MAP_WIDTH = 200
+const MAP_HEIGHT = 140
+const MAP_PADDING = 200
+
+export function Minimap({ blocks, heightOf, view, onNavigate }: MinimapProps) {
+  const dragPointerRef = useRef<number | null>(null)
+  // The mapped area follows the view, so it is frozen while dragging to keep the map from shifting under the pointer.
+  const [frozenArea, setFrozenArea] = useState<Bounds | null>(null)
+  const rects = blocks.map((b) => ({ block: b, minX: b.x, minY: b.y, maxX: b.x + b.width, maxY: b.y + heightOf(b) }))
+  const all = view ? [...rects, view] : rects
+  if (!all.length) return null
+
+  const area = frozenArea ?? {
+    minX: Math.min(...all.map((r) => r.minX)) - MAP_PADDING,
+    minY: Math.min(...all.map((r) => r.minY)) - MAP_PADDING,
+    maxX: Math.max(...all.map((r) => r.maxX)) + MAP_PADDING,
+    maxY: Math.max(...all.map((r) => r.maxY)) + MAP_PADDING,
+  }
+  const { minX, minY, maxX, maxY } = area
+  const scale = Math.min(MAP_WIDTH / (maxX - minX), MAP_HEIGHT / (maxY - minY))
+  const toMap = (r: Bounds) => ({
+    left: (r.minX - minX) * scale,
+    top: (r.minY - minY) * scale,
+    width: Math.max(2, (r.maxX - r.minX) * scale),
+    height: Math.max(2, (r.maxY - r.minY) * scale),
+  })
+
+  const navigateTo = (event: PointerEvent<HTMLDivElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect()
+    onNavigate((event.clientX - rect.left) / scale + minX, (event.clientY - rect.top) / scale + minY)
+  }
+
+  // Pressing anywhere jumps the viewport there; keep dragging to move it around.
+  const handlePointerDown = (event: PointerEvent<HTMLDivElement>) => {
+    if (event.button !== 0) return
+    event.stopPropagation()
+    dragPointerRef.current = event.pointerId
+    setFrozenArea(area)
+    event.currentTarget.setPointerCapture(event.pointerId)
+    navigateTo(event)
+  }
+
+  const handlePointerMove = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragPointerRef.current !== event.pointerId) return
+    navigateTo(event)
+  }
+
+  const handlePointerEnd = (event: PointerEvent<HTMLDivElement>) => {
+    if (dragPointerRef.current !== event.pointerId) return
+    dragPointerRef.current = null
+    setFrozenArea(null)
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) event.currentTarget.releasePointerCapture(event.pointerId)
+  }
+
+  return (
+    <div
+      className="minimap"
+      style={{ width: (maxX - minX) * scale, height: (maxY - minY) * scale }}
+      aria-label="Canvas overview. Drag to move the view."
+      role="img"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerEnd}
+      onPointerCancel={handlePointerEnd}
+    >
+      {rects.map((r) => (
+        <div key={r.block.id} className={`minimap-block minimap-${r.block.type}`} style={toMap(r)} />
+      ))}
+      {view && <div className="minimap-view" style={toMap(view)} />}
+    </div>
+  )
+}
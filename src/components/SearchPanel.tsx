@@ -0,0 +1,89 @@
+import type { KeyboardEvent, RefObject } from 'react'
+import type { SearchResult } from '../state/search'
+
+type SearchPanelProps = {
+  query: string
+  results: SearchResult[]
+  activeIndex: number
+  inputRef: RefObject<HTMLInputElement | null>
+  describeResult: (result: SearchResult) => string
+  onQueryChange: (query: string) => void
+  onStep: (direction: 1 | -1) => void
+  onSelect: (index: number) => void
+  onClose: () => void
+}
+
+export function SearchPanel({
+  query,
+  results,
+  activeIndex,
+  inputRef,
+  describeResult,
+  onQueryChange,
+  onStep,
+  onSelect,
+  onClose,
+}: SearchPanelProps) {
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'Enter') {
+      event.preventDefault()
+      onStep(event.shiftKey ? -1 : 1)
+    } else if (event.key === 'Escape') {
+      event.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <div className="search-panel" role="search" onPointerDown={(e) => e.stopPropagation()}>
+      <div className="search-panel-bar">
+        <input
+          ref={inputRef}
+          className="search-panel-input"
+          type="search"
+          value={query}
+          placeholder="Search blocks, links and summaries"
+          aria-label="Search the canvas"
+          autoFocus
+          onChange={(e) => onQueryChange(e.target.value)}
+          onKeyDown={handleKeyDown}
+        />
+        <span className="search-panel-count" aria-live="polite">
+          {query.trim() ? (results.length ? `${activeIndex + 1} of ${results.length}` : 'No matches') : ''}
+        </span>
+        <button className="search-panel-btn" onClick={() => onStep(-1)} disabled={!results.length} title="Previous match (Shift+Enter)">
+          ↑
+        </button>
+        <button className="search-panel-btn" onClick={() => onStep(1)} disabled={!results.length} title="Next match (Enter)">
+          ↓
+        </button>
+        <button className="search-panel-btn" onClick={onClose} title="Close search (Esc)">
+          ✕
+        </button>
+      </div>
+      {results.length > 0 && (
+        <ul className="search-results">
+          {results.map((result, idx) => (
+            <li key={result.blockId}>
+              <button
+                className={`search-result ${idx === activeIndex ? 'active' : ''}`}
+                aria-current={idx === activeIndex}
+                onClick={() => onSelect(idx)}
+              >
+                <span className="search-result-meta">
+                  {describeResult(result)}
+                  {result.count > 1 ? ` · ${result.count} matches` : ''}
+                </span>
+                <span className="search-result-snippet">
+                  {result.before}
+                  <mark>{result.match}</mark>
+                  {result.after}
+                </span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
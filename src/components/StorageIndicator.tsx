@@ -0,0 +1,41 @@
+import type { StorageEstimate } from '../state/blockStore'
+
+type StorageIndicatorProps = {
+  usage: StorageEstimate | null
+  saveError: string | null
+}
+
+const NEAR_QUOTA_RATIO = 0.9
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`
+}
+
+export function StorageIndicator({ usage, saveError }: StorageIndicatorProps) {
+  const ratio = usage && usage.quota > 0 ? usage.usage / usage.quota : 0
+  const nearQuota = ratio >= NEAR_QUOTA_RATIO
+
+  return (
+    <>
+      {saveError && (
+        <div className="save-warning" role="alert">
+          {saveError}
+        </div>
+      )}
+      {usage && (
+        <div className={`storage-indicator ${nearQuota ? 'warning' : ''}`} title="Browser storage used by this site">
+          <div className="storage-bar">
+            <div className="storage-bar-fill" style={{ width: `${Math.min(100, Math.max(2, ratio * 100))}%` }} />
+          </div>
+          <span>
+            {formatBytes(usage.usage)} of {formatBytes(usage.quota)}
+            {nearQuota && ' · almost full'}
+          </span>
+        </div>
+      )}
+    </>
+  )
+}
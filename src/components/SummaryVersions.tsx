@@ -0,0 +1,72 @@
+import type { Block, SummaryBlock } from '../models/canvas'
+import { changedSources, diffLines } from '../state/summaryVersions'
+
+type SummaryVersionsProps = {
+  /** Newest first. */
+  versions: SummaryBlock[]
+  activeId: string
+  compareId: string | null
+  blockLookup: Map<string, Block>
+  onCompare: (id: string | null) => void
+  onRestore: (id: string) => void
+}
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' })
+
+export function SummaryVersions({ versions, activeId, compareId, blockLookup, onCompare, onRestore }: SummaryVersionsProps) {
+  const active = versions.find((v) => v.id === activeId)
+  const base = compareId ? versions.find((v) => v.id === compareId) : undefined
+  if (!active || versions.length < 2) return null
+
+  return (
+    <div className="summary-versions">
+      <p className="summary-label">Versions ({versions.length})</p>
+      <ul className="summary-version-list">
+        {versions.map((version, idx) => {
+          const stale = changedSources(version, blockLookup).length
+          const isActive = version.id === activeId
+          return (
+            <li key={version.id} className={`summary-version ${isActive ? 'active' : ''}`}>
+              <span className="summary-version-meta">
+                v{versions.length - idx} · {formatTimestamp(version.createdAt)} ·{' '}
+                {version.provenance?.provider === 'gpt' ? 'GPT' : 'Local'}
+                {stale > 0 && (
+                  <span className="summary-version-stale" title="Source blocks changed since this version was generated">
+                    {' '}
+                    · {stale} source{stale === 1 ? '' : 's'} changed
+                  </span>
+                )}
+              </span>
+              {isActive ? (
+                <span className="summary-version-current">Showing</span>
+              ) : (
+                <span className="summary-version-actions">
+                  <button
+                    className="summary-version-btn"
+                    onClick={() => onCompare(compareId === version.id ? null : version.id)}
+                  >
+                    {compareId === version.id ? 'Hide diff' : 'Diff'}
+                  </button>
+                  <button className="summary-version-btn" onClick={() => onRestore(version.id)}>
+                    Restore
+                  </button>
+                </span>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+      {base && (
+        <div className="summary-diff" aria-label="Changes from the compared version">
+          {diffLines(base.summaryText, active.summaryText).map((line, idx) => (
+            <p key={idx} className={`summary-diff-line ${line.kind}`}>
+              <span aria-hidden="true">{line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '− ' : '  '}</span>
+              {line.text}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,4 +1,15 @@
-export type BlockType = 'text' | 'image' | 'link' | 'summary'
+export type BlockType = 'text' | 'image' | 'link' | 'summary' | 'frame' | 'connector' | 'decision' | 'checklist'
+
+/** Categories the summarizers understand; any other tag name is a custom tag. */
+export const SEMANTIC_TAGS = ['decision', 'constraint', 'risk', 'question', 'audience'] as const
+
+export type SemanticTag = (typeof SEMANTIC_TAGS)[number]
+
+/** Manual tag on the whole block, or only on the passage `quote` of a text block's text. */
+export type BlockTag = {
+  tag: string
+  quote?: string
+}
 
 export type BlockBase = {
   id: string
@@ -9,6 +20,7 @@ export type BlockBase = {
   height?: number
   createdAt: string
   updatedAt: string
+  tags?: BlockTag[]
 }
 
 export type TextBlock = BlockBase & {
@@ -20,12 +32,30 @@ export type ImageBlock = BlockBase & {
   type: 'image'
   src: string
   aspectRatio?: number
+  /** Shown under the image and read by the summarizers as the image's content. */
+  caption?: string
+  /** Screen-reader description; falls back to the caption. */
+  alt?: string
+}
+
+/** Room a captioned image block reserves below the picture for its one-line caption. */
+export const IMAGE_CAPTION_HEIGHT = 34
+
+/** What the local server read from the linked page. Text here is the page's, not the author's. */
+export type LinkPreview = {
+  title?: string
+  description?: string
+  image?: string
+  siteName?: string
+  fetchedAt: string
 }
 
 export type LinkBlock = BlockBase & {
   type: 'link'
   url: string
+  /** What the author typed; shown whenever the page could not be unfurled. */
   label: string
+  preview?: LinkPreview
 }
 
 export type SummarySections = {
@@ -46,6 +76,14 @@ export type SummarySpan = {
   citationNs: number[]
 }
 
+export type SummaryProvider = 'mock' | 'gpt'
+
+/** How a summary was produced: which provider, and the content version of each scoped block at the time. */
+export type SummaryProvenance = {
+  provider: SummaryProvider
+  sourceVersions: Record<string, string>
+}
+
 export type SummaryBlock = BlockBase & {
   type: 'summary'
   title: string
@@ -66,6 +104,22 @@ export type SummaryBlock = BlockBase & {
     | { id: string; role: 'user'; text: string; createdAt: number }
     | { id: string; role: 'assistant'; text: string; citations: Citation[]; createdAt: number }
   >
+  provenance?: SummaryProvenance
+}
+
+/** The canvas-wide summary shown in the side panel. Not a block; stored and exported next to the blocks. */
+export type CanvasSummaryData = {
+  id: string
+  title: string
+  totalBlocks: number
+  sections: Record<string, string>
+  evidence: string[]
+  summaryText: string
+  scope: { kind: 'canvas'; blockIds: string[] }
+  qa: SummaryBlock['qa']
+  messages: NonNullable<SummaryBlock['messages']>
+  citations?: Citation[]
+  spans?: SummarySpan[]
 }
 
 export type SummaryRefBlock = {
@@ -81,11 +135,79 @@ export type SummaryRefBlock = {
   summaryText?: string
   scopeBlockIds: string[]
   pastelColor: string
-  createdAt: number
-  updatedAt?: string
+  createdAt: string
+  updatedAt: string
+  tags?: BlockTag[]
 }
 
-export type Block = TextBlock | ImageBlock | LinkBlock | SummaryBlock | SummaryRefBlock
+/** Named area; whatever lies fully inside its bounds moves and is summarized with it. */
+export type FrameBlock = BlockBase & {
+  type: 'frame'
+  title: string
+  height: number
+  /** Latest summary generated from the frame's members. */
+  summaryId?: string
+}
+
+/**
+ * Labelled arrow from one block to another. Kept in the block list so it shares undo, sync and
+ * persistence; it is drawn from its endpoints, so its own x/y/width are not used for layout.
+ */
+export type ConnectorBlock = BlockBase & {
+  type: 'connector'
+  fromId: string
+  toId: string
+  label: string
+}
+
+export const DECISION_STATUSES = ['proposed', 'accepted', 'rejected', 'superseded'] as const
+
+export type DecisionStatus = (typeof DECISION_STATUSES)[number]
+
+/** A decision record: what was decided, by whom and why. Summaries treat these as authoritative. */
+export type DecisionBlock = BlockBase & {
+  type: 'decision'
+  decision: string
+  status: DecisionStatus
+  rationale: string
+  /** Day the decision was made or proposed (YYYY-MM-DD); empty when unknown. */
+  date: string
+  owner: string
+  /** Options that were considered and not taken, one per entry. */
+  alternatives: string[]
+}
+
+export type ChecklistItem = {
+  id: string
+  text: string
+  done: boolean
+  assignee?: string
+  /** Due day (YYYY-MM-DD). */
+  due?: string
+  /** The text block this item was extracted from. */
+  sourceBlockId?: string
+}
+
+/** Action items that can be ticked off, reassigned and reordered. */
+export type ChecklistBlock = BlockBase & {
+  type: 'checklist'
+  title: string
+  height: number
+  items: ChecklistItem[]
+}
+
+export type Block =
+  | TextBlock
+  | ImageBlock
+  | LinkBlock
+  | SummaryBlock
+  | SummaryRefBlock
+  | FrameBlock
+  | ConnectorBlock
+  | DecisionBlock
+  | ChecklistBlock
+
+export const isConnector = (block: Block): block is ConnectorBlock => block.type === 'connector'
 
 export function createId(prefix = 'BLK'): string {
   const rand = Math.random().toString(16).slice(2, 6)
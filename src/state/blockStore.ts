@@ -0,0 +1,178 @@
+import type { Block } from '../models/canvas'
+import { isNewerBlock } from './sync'
+
+const DB_NAME = 'recap-canvas'
+const DB_VERSION = 1
+const CANVAS_STORE = 'canvases'
+const BLOCK_STORE = 'blocks'
+
+type CanvasRecord = {
+  canvasId: string
+  schemaVersion: number
+  /** Block ids in render order; blocks are stored individually so writes stay incremental. */
+  order: string[]
+  updatedAt: string
+}
+
+type BlockRecord = {
+  canvasId: string
+  id: string
+  block: Block
+}
+
+export type StoredCanvas = {
+  schemaVersion: number
+  blocks: unknown[]
+}
+
+export type StorageEstimate = {
+  usage: number
+  quota: number
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function isIndexedDbAvailable() {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined'
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+
+const transactionDone = (tx: IDBTransaction) =>
+  new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new DOMException('Transaction aborted', 'AbortError'))
+  })
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+    request.onupgradeneeded = () => {
+      const db = request.result
+      if (!db.objectStoreNames.contains(CANVAS_STORE)) {
+        db.createObjectStore(CANVAS_STORE, { keyPath: 'canvasId' })
+      }
+      if (!db.objectStoreNames.contains(BLOCK_STORE)) {
+        const store = db.createObjectStore(BLOCK_STORE, { keyPath: ['canvasId', 'id'] })
+        store.createIndex('byCanvas', 'canvasId')
+      }
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => {
+      dbPromise = null
+      reject(request.error)
+    }
+  })
+  return dbPromise
+}
+
+export async function readCanvas(canvasId: string): Promise<StoredCanvas | null> {
+  const db = await openDb()
+  const tx = db.transaction([CANVAS_STORE, BLOCK_STORE], 'readonly')
+  const meta = await requestToPromise<CanvasRecord | undefined>(tx.objectStore(CANVAS_STORE).get(canvasId))
+  if (!meta) return null
+  const records = await requestToPromise<BlockRecord[]>(
+    tx.objectStore(BLOCK_STORE).index('byCanvas').getAll(IDBKeyRange.only(canvasId))
+  )
+  const byId = new Map(records.map((r) => [r.id, r.block]))
+  const blocks = meta.order.flatMap((id) => (byId.has(id) ? [byId.get(id)] : []))
+  return { schemaVersion: meta.schemaVersion, blocks }
+}
+
+/**
+ * Writes only the given upserts/deletes plus the (small) ordering record, in one
+ * transaction. With `replace`, every stored block of the canvas is cleared first.
+ *
+ * Otherwise the write is guarded against other tabs: a stored block with a newer
+ * `updatedAt` than the one being written (or deleted) is left alone and returned,
+ * and stored blocks this writer has never seen stay in the order.
+ */
+export async function writeCanvasChanges(
+  canvasId: string,
+  schemaVersion: number,
+  order: string[],
+  upserts: Block[],
+  deletes: Block[],
+  replace = false
+): Promise<Block[]> {
+  const db = await openDb()
+  const tx = db.transaction([CANVAS_STORE, BLOCK_STORE], 'readwrite')
+  const canvasStore = tx.objectStore(CANVAS_STORE)
+  const blockStore = tx.objectStore(BLOCK_STORE)
+  const kept: Block[] = []
+  let finalOrder = order
+  if (replace) {
+    const keys = await requestToPromise(blockStore.index('byCanvas').getAllKeys(IDBKeyRange.only(canvasId)))
+    keys.forEach((key) => blockStore.delete(key))
+    upserts.forEach((block) => blockStore.put({ canvasId, id: block.id, block } satisfies BlockRecord))
+  } else {
+    const meta = await requestToPromise<CanvasRecord | undefined>(canvasStore.get(canvasId))
+    const stored = await Promise.all(
+      [...upserts, ...deletes].map((b) => requestToPromise<BlockRecord | undefined>(blockStore.get([canvasId, b.id])))
+    )
+    const storedById = new Map(stored.flatMap((r) => (r ? [[r.id, r.block] as const] : [])))
+    const isStale = (block: Block) => {
+      const current = storedById.get(block.id)
+      if (!current || !isNewerBlock(current, block)) return false
+      kept.push(current)
+      return true
+    }
+    upserts
+      .filter((block) => !isStale(block))
+      .forEach((block) => blockStore.put({ canvasId, id: block.id, block } satisfies BlockRecord))
+    const deletedIds = new Set(deletes.filter((block) => !isStale(block)).map((block) => block.id))
+    deletedIds.forEach((id) => blockStore.delete([canvasId, id]))
+    const ordered = new Set(order)
+    finalOrder = [...order, ...(meta?.order ?? []).filter((id) => !ordered.has(id) && !deletedIds.has(id))]
+  }
+  canvasStore.put({
+    canvasId,
+    schemaVersion,
+    order: finalOrder,
+    updatedAt: new Date().toISOString(),
+  } satisfies CanvasRecord)
+  await transactionDone(tx)
+  return kept
+}
+
+export async function deleteStoredCanvas(canvasId: string) {
+  const db = await openDb()
+  const tx = db.transaction([CANVAS_STORE, BLOCK_STORE], 'readwrite')
+  tx.objectStore(CANVAS_STORE).delete(canvasId)
+  const blockStore = tx.objectStore(BLOCK_STORE)
+  const keys = await requestToPromise(blockStore.index('byCanvas').getAllKeys(IDBKeyRange.only(canvasId)))
+  keys.forEach((key) => blockStore.delete(key))
+  await transactionDone(tx)
+}
+
+export async function copyStoredCanvas(sourceId: string, targetId: string) {
+  const stored = await readCanvas(sourceId)
+  if (!stored) return
+  const blocks = stored.blocks as Block[]
+  await writeCanvasChanges(
+    targetId,
+    stored.schemaVersion,
+    blocks.map((b) => b.id),
+    blocks,
+    [],
+    true
+  )
+}
+
+export async function estimateStorage(): Promise<StorageEstimate | null> {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null
+  try {
+    const { usage, quota } = await navigator.storage.estimate()
+    if (typeof usage !== 'number' || typeof quota !== 'number') return null
+    return { usage, quota }
+  } catch (err) {
+    console.warn('Failed to estimate storage', err)
+    return null
+  }
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+import type { Block, CanvasSummaryData, ChecklistBlock, ConnectorBlock, FrameBlock, SummaryBlock, TextBlock } from '../models/canvas'
+import { createBundle, parseBundle, remapBundleIds } from './bundle'
+import type { CanvasBundle } from './bundle'
+
+const at = '2024-05-01T10:00:00.000Z'
+
+const note = (id: string, x: number): TextBlock => ({ id, type: 'text', text: `Note ${id}`, x, y: 40, width: 300, createdAt: at, updatedAt: at })
+
+const summary: SummaryBlock = {
+  id: 'SUM-1',
+  type: 'summary',
+  title: 'Research',
+  evidenceBlockIds: ['T-1', 'T-2'],
+  summaryText: '• Onboarding [1]\n• Pricing [2]',
+  citations: [
+    { n: 1, blockIds: ['T-1'] },
+    { n: 2, blockIds: ['T-2'] },
+  ],
+  spans: [],
+  scope: { kind: 'selection', blockIds: ['T-1', 'T-2'] },
+  qa: [{ id: 'MSG-q', question: 'Why?', answer: 'Onboarding [1]', citations: [{ n: 1, blockIds: ['T-1'] }], createdAt: 1 }],
+  messages: [
+    { id: 'MSG-1', role: 'user', text: 'What about pricing?', createdAt: 2 },
+    { id: 'MSG-2', role: 'assistant', text: 'Unclear [1]', citations: [{ n: 1, blockIds: ['T-2'] }], createdAt: 3 },
+  ],
+  provenance: { provider: 'mock', sourceVersions: { 'T-1': 'v1', 'T-2': 'v2' } },
+  x: 0,
+  y: 300,
+  width: 360,
+  createdAt: at,
+  updatedAt: at,
+}
+
+const frame: FrameBlock = { id: 'F-1', type: 'frame', title: 'Research', x: -20, y: 0, width: 800, height: 240, summaryId: 'SUM-1', createdAt: at, updatedAt: at }
+const connector: ConnectorBlock = { id: 'C-1', type: 'connector', fromId: 'T-1', toId: 'T-2', label: 'because', x: 0, y: 0, width: 1, createdAt: at, updatedAt: at }
+const checklist: ChecklistBlock = {
+  id: 'CL-1',
+  type: 'checklist',
+  title: 'Action items',
+  items: [{ id: 'ITEM-1', text: 'Call Ann', done: false, sourceBlockId: 'T-1' }],
+  x: 0,
+  y: 600,
+  width: 360,
+  height: 200,
+  createdAt: at,
+  updatedAt: at,
+}
+
+const canvasSummary: CanvasSummaryData = {
+  id: 'CANVAS-SUMMARY',
+  title: 'Canvas summary',
+  totalBlocks: 2,
+  sections: { 'What this file seems to be about': 'Onboarding research.' },
+  evidence: ['T-1'],
+  summaryText: '• Onboarding research. [1]',
+  scope: { kind: 'canvas', blockIds: ['T-1', 'T-2'] },
+  qa: [],
+  messages: [{ id: 'MSG-3', role: 'assistant', text: 'Yes [1]', citations: [{ n: 1, blockIds: ['T-1'] }], createdAt: 4 }],
+  citations: [{ n: 1, blockIds: ['T-1'] }],
+}
+
+const blocks: Block[] = [note('T-1', 0), note('T-2', 400), frame, connector, checklist, summary]
+
+const exported = () => createBundle({ name: 'Research', zoom: 1.25, blocks, summaries: { [summary.id]: summary }, canvasSummary })
+
+const parsed = (text: string): CanvasBundle => {
+  const result = parseBundle(text)
+  if (!result.ok) throw new Error(result.error)
+  return result.bundle
+}
+
+describe('parseBundle', () => {
+  it('reads back what was exported', () => {
+    const result = parseBundle(JSON.stringify(exported()))
+    expect(result).toMatchObject({ ok: true, notices: [] })
+    const bundle = parsed(JSON.stringify(exported()))
+    expect(bundle.name).toBe('Research')
+    expect(bundle.zoom).toBe(1.25)
+    expect(bundle.blocks).toEqual(blocks)
+    expect(bundle.summaries).toEqual({ [summary.id]: summary })
+    expect(bundle.canvasSummary).toEqual(canvasSummary)
+  })
+
+  it('rejects files that are not exports', () => {
+    expect(parseBundle('not json')).toEqual({ ok: false, error: 'File is not valid JSON.' })
+    expect(parseBundle(JSON.stringify({ blocks: [] }))).toEqual({ ok: false, error: 'File is not a Recap Canvas export.' })
+  })
+
+  it('leaves out a canvas summary it cannot show, with a notice', () => {
+    const result = parseBundle(JSON.stringify({ ...exported(), canvasSummary: { scope: 'x' } }))
+    if (!result.ok) throw new Error(result.error)
+    expect(result.bundle.canvasSummary).toBeUndefined()
+    expect(result.notices).toEqual(['The canvas summary in this file could not be read and was left out.'])
+
+    const badSections = { ...canvasSummary, sections: { About: 42 } }
+    expect(parsed(JSON.stringify({ ...exported(), canvasSummary: badSections })).canvasSummary).toBeUndefined()
+  })
+
+  it('repairs Q&A entries without citations so a merge can remap them', () => {
+    const broken = { ...summary, qa: [{ id: 'MSG-q', question: 'Why?', answer: 'Because.', createdAt: 1 }] }
+    const bundle = parsed(JSON.stringify({ ...exported(), blocks: [...blocks.slice(0, -1), broken], summaries: {} }))
+    const merged = remapBundleIds(bundle, new Set(['T-1', 'SUM-1']))
+    const remapped = merged.blocks.find((b): b is SummaryBlock => b.type === 'summary')
+    expect(remapped?.qa[0].citations).toEqual([])
+  })
+})
+
+describe('remapBundleIds', () => {
+  it('returns the bundle untouched when no id is taken', () => {
+    const bundle = exported()
+    expect(remapBundleIds(bundle, new Set(['T-9']))).toBe(bundle)
+  })
+
+  it('renames taken ids and rewrites every reference to them', () => {
+    const merged = remapBundleIds(exported(), new Set(['T-1', 'SUM-1', 'C-1']))
+    const byType = <T extends Block['type']>(type: T) => merged.blocks.find((b): b is Extract<Block, { type: T }> => b.type === type)
+    const [first, second] = merged.blocks
+    const newNote = first.id
+    const newSummary = byType('summary')?.id ?? ''
+
+    expect(newNote).not.toBe('T-1')
+    expect(newNote).toMatch(/^T-/)
+    expect(second.id).toBe('T-2')
+    expect(newSummary).toMatch(/^SUM-/)
+    expect(newSummary).not.toBe('SUM-1')
+    expect(byType('connector')).toMatchObject({ fromId: newNote, toId: 'T-2' })
+    expect(byType('connector')?.id).not.toBe('C-1')
+    expect(byType('frame')).toMatchObject({ id: 'F-1', summaryId: newSummary })
+    expect(byType('checklist')?.items[0].sourceBlockId).toBe(newNote)
+
+    const remapped = byType('summary')
+    expect(remapped?.evidenceBlockIds).toEqual([newNote, 'T-2'])
+    expect(remapped?.scope.blockIds).toEqual([newNote, 'T-2'])
+    expect(remapped?.citations).toEqual([
+      { n: 1, blockIds: [newNote] },
+      { n: 2, blockIds: ['T-2'] },
+    ])
+    expect(remapped?.qa[0].citations).toEqual([{ n: 1, blockIds: [newNote] }])
+    expect(remapped?.messages?.[1]).toMatchObject({ citations: [{ n: 1, blockIds: ['T-2'] }] })
+    expect(remapped?.provenance?.sourceVersions).toEqual({ [newNote]: 'v1', 'T-2': 'v2' })
+    expect(Object.keys(merged.summaries)).toEqual([newSummary])
+    expect(merged.summaries[newSummary].citations[0].blockIds).toEqual([newNote])
+  })
+})
@@ -0,0 +1,166 @@
+import type { Block, CanvasSummaryData, Citation, SummaryBlock } from '../models/canvas'
+import { createId } from '../models/canvas'
+import { migrateState, SCHEMA_VERSION } from './migrations'
+import { describeValidationIssues, validateBlocks, validateCanvasSummary } from './validation'
+import type { SummaryStore } from './persistence'
+
+export const BUNDLE_FORMAT = 'recap-canvas-bundle'
+const BUNDLE_VERSION = 1
+
+export type CanvasBundle = {
+  format: typeof BUNDLE_FORMAT
+  bundleVersion: number
+  schemaVersion: number
+  exportedAt: string
+  name: string
+  zoom: number | null
+  blocks: Block[]
+  summaries: SummaryStore
+  /** Canvas-wide summary shown in the panel, including its Q&A thread. */
+  canvasSummary?: CanvasSummaryData
+}
+
+export type ParsedBundle =
+  | { ok: true; bundle: CanvasBundle; notices: string[] }
+  | { ok: false; error: string }
+
+export function createBundle(input: {
+  name: string
+  zoom: number | null
+  blocks: Block[]
+  summaries: SummaryStore
+  canvasSummary?: CanvasSummaryData
+}): CanvasBundle {
+  return {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    ...input,
+  }
+}
+
+export const fileSlug = (name: string, fallback = 'canvas') =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || fallback
+
+export function bundleFileName(name: string) {
+  return `${fileSlug(name)}.recap.json`
+}
+
+/** Parses and validates an exported bundle; blocks from older schemas go through the migration pipeline. */
+export function parseBundle(text: string): ParsedBundle {
+  let parsed: Record<string, unknown>
+  try {
+    parsed = JSON.parse(text) as Record<string, unknown>
+  } catch {
+    return { ok: false, error: 'File is not valid JSON.' }
+  }
+  if (!parsed || parsed.format !== BUNDLE_FORMAT) {
+    return { ok: false, error: 'File is not a Recap Canvas export.' }
+  }
+
+  const migrated = migrateState({ schemaVersion: parsed.schemaVersion, blocks: parsed.blocks })
+  if (!migrated.ok) return { ok: false, error: migrated.failures.join(' ') }
+  const { blocks, issues } = validateBlocks(migrated.state.blocks)
+
+  const rawSummaries = parsed.summaries && typeof parsed.summaries === 'object' ? Object.values(parsed.summaries) : []
+  const summaryCheck = validateBlocks(rawSummaries, { knownIds: blocks.map((b) => b.id) })
+  const summaries: SummaryStore = Object.fromEntries(
+    summaryCheck.blocks.filter((b): b is SummaryBlock => b.type === 'summary').map((s) => [s.id, s])
+  )
+
+  const canvasSummary =
+    parsed.canvasSummary === undefined || parsed.canvasSummary === null
+      ? undefined
+      : (validateCanvasSummary(parsed.canvasSummary, blocks.map((b) => b.id)) ?? undefined)
+  const summaryNotice =
+    parsed.canvasSummary && !canvasSummary ? ['The canvas summary in this file could not be read and was left out.'] : []
+  if (summaryNotice.length) console.warn('Import dropped canvas summary', parsed.canvasSummary)
+
+  const allIssues = [...issues, ...summaryCheck.issues]
+  if (allIssues.length) console.warn('Import data check', allIssues)
+  const description = describeValidationIssues(allIssues)
+  return {
+    ok: true,
+    notices: [...migrated.failures, ...(description ? [description] : []), ...summaryNotice],
+    bundle: {
+      format: BUNDLE_FORMAT,
+      bundleVersion: typeof parsed.bundleVersion === 'number' ? parsed.bundleVersion : BUNDLE_VERSION,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : new Date().toISOString(),
+      name: typeof parsed.name === 'string' ? parsed.name : 'Imported canvas',
+      zoom: typeof parsed.zoom === 'number' && Number.isFinite(parsed.zoom) ? parsed.zoom : null,
+      blocks,
+      summaries,
+      canvasSummary,
+    },
+  }
+}
+
+const idPrefix = (id: string) => id.split('-')[0] || 'BLK'
+
+/**
+ * Gives every block and summary whose id already exists in `takenIds` a fresh
+ * `createId()` id and rewrites all references (scopes, evidence, citations,
+ * summary_ref targets) so the merged bundle stays internally consistent.
+ */
+export function remapBundleIds(bundle: CanvasBundle, takenIds: Set<string>): CanvasBundle {
+  const mapping = new Map<string, string>()
+  const reserve = (id: string) => {
+    if (!takenIds.has(id) && !mapping.has(id)) {
+      takenIds.add(id)
+      return
+    }
+    let next = createId(idPrefix(id))
+    while (takenIds.has(next)) next = createId(idPrefix(id))
+    takenIds.add(next)
+    mapping.set(id, next)
+  }
+  // A summary can be both a block and a stored summary; it keeps one id for both.
+  new Set([...bundle.blocks.map((b) => b.id), ...Object.keys(bundle.summaries)]).forEach(reserve)
+  if (!mapping.size) return bundle
+
+  const mapId = (id: string) => mapping.get(id) ?? id
+  const mapIds = (ids: string[]) => ids.map(mapId)
+  const mapCitations = (citations: Citation[]) => citations.map((c) => ({ ...c, blockIds: mapIds(c.blockIds) }))
+  const remapSummary = (s: SummaryBlock): SummaryBlock => ({
+    ...s,
+    id: mapId(s.id),
+    evidenceBlockIds: mapIds(s.evidenceBlockIds),
+    citations: mapCitations(s.citations),
+    scope: { ...s.scope, blockIds: mapIds(s.scope.blockIds) },
+    qa: s.qa.map((q) => ({ ...q, citations: mapCitations(q.citations) })),
+    messages: s.messages?.map((m) => (m.role === 'assistant' ? { ...m, citations: mapCitations(m.citations) } : m)),
+    provenance: s.provenance && {
+      ...s.provenance,
+      sourceVersions: Object.fromEntries(Object.entries(s.provenance.sourceVersions).map(([id, v]) => [mapId(id), v])),
+    },
+  })
+
+  const blocks = bundle.blocks.map((b): Block => {
+    if (b.type === 'summary') return remapSummary(b)
+    if (b.type === 'summary_ref') {
+      return { ...b, id: mapId(b.id), summaryId: mapId(b.summaryId), scopeBlockIds: mapIds(b.scopeBlockIds) }
+    }
+    if (b.type === 'frame') return { ...b, id: mapId(b.id), summaryId: b.summaryId && mapId(b.summaryId) }
+    if (b.type === 'connector') return { ...b, id: mapId(b.id), fromId: mapId(b.fromId), toId: mapId(b.toId) }
+    if (b.type === 'checklist') {
+      return {
+        ...b,
+        id: mapId(b.id),
+        items: b.items.map((item) => ({ ...item, sourceBlockId: item.sourceBlockId && mapId(item.sourceBlockId) })),
+      }
+    }
+    return { ...b, id: mapId(b.id) }
+  })
+  const summaries = Object.fromEntries(
+    Object.values(bundle.summaries).map((s) => {
+      const remapped = remapSummary(s)
+      return [remapped.id, remapped]
+    })
+  )
+  return { ...bundle, blocks, summaries }
+}
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+import { seedBlocks } from '../models/canvas'
+import { extractActionItems, moveItem } from './checklists'
+
+describe('extractActionItems', () => {
+  it('keeps the source block on items taken from sentences and task lists', () => {
+    const text = 'We reviewed the venue. Action item: call the venue @ann by 2024-10-01.\n\n- [x] Send invites'
+    expect(extractActionItems(text, 'T-9')).toEqual([
+      { text: 'Call the venue', done: false, assignee: 'ann', due: '2024-10-01', sourceBlockId: 'T-9' },
+      { text: 'Send invites', done: true, sourceBlockId: 'T-9' },
+    ])
+  })
+
+  it('reads "assigned to" and leaves out questions and negated next steps', () => {
+    const text = 'Next steps - draft the floor plan, assigned to Sam Lee. Who will book the van? No clear next step.'
+    expect(extractActionItems(text)).toEqual([{ text: 'Draft the floor plan', done: false, assignee: 'Sam Lee' }])
+  })
+
+  it('finds the one action item in the seed meeting notes', () => {
+    const notes = seedBlocks.find((b) => b.id === 'T-304')
+    if (notes?.type !== 'text') throw new Error('seed note T-304 is missing')
+    expect(extractActionItems(notes.text, notes.id)).toEqual([
+      { text: 'Explore how much ambiguity is too much', done: false, sourceBlockId: 'T-304' },
+    ])
+  })
+})
+
+describe('moveItem', () => {
+  const items = ['a', 'b', 'c'].map((id) => ({ id, text: id, done: false }))
+
+  it('moves an item and ignores moves past either end', () => {
+    expect(moveItem(items, 0, 1).map((i) => i.id)).toEqual(['b', 'a', 'c'])
+    expect(moveItem(items, 0, -1)).toBe(items)
+    expect(moveItem(items, 2, 1)).toBe(items)
+  })
+})
@@ -0,0 +1,78 @@
+import type { ChecklistBlock, ChecklistItem } from '../models/canvas'
+import { createId } from '../models/canvas'
+import { markdownSegments } from './markdown'
+
+export type ExtractedActionItem = Omit<ChecklistItem, 'id'>
+
+// "Action item = …", "TODO: …", "Next steps - …": the marker and anything before it is dropped.
+const ACTION_PREFIX = /^(?:.*?\b)?(?:action items?|to-?dos?|next steps?|follow[- ]?ups?)\s*(?:[:=–—-]|\bis\b)\s*/i
+const ACTION_HINT = /\b(?:action items?|to-?dos?|next steps?|follow[- ]?ups?|let'?s|we'll|we will|i'll|i will|assigned to)\b|(?:^|\s)@\w/i
+// "No clear next step." mentions a next step without being one.
+const NEGATED = /^(?:no|not|nothing|none)\b/i
+const MENTION = /(?:^|\s)@([\w.-]+)/
+const ASSIGNED_TO = /\bassigned to ([A-Z][\w.-]*(?: [A-Z][\w.-]*)?)/
+const DUE = /\b(?:by|due(?: on)?)\s+(\d{4}-\d{2}-\d{2})\b/i
+
+const ROW_HEIGHT = 36
+const CHROME_HEIGHT = 96
+
+/**
+ * Action items in a note, in reading order: every task-list item (ticked ones stay ticked) plus
+ * sentences and bullets that are marked as action items, to-dos or next steps, or that address
+ * someone with `@name`. Questions are left out; they are not commitments yet.
+ */
+export function extractActionItems(text: string, sourceBlockId?: string): ExtractedActionItem[] {
+  return markdownSegments(text).flatMap((segment): ExtractedActionItem[] => {
+    if (!segment.claim) return []
+    const isTask = segment.checked !== undefined
+    if (!isTask && (!ACTION_HINT.test(segment.text) || NEGATED.test(segment.text) || segment.text.endsWith('?'))) return []
+    const body = segment.text.replace(ACTION_PREFIX, '').replace(/[.;]+$/, '').trim()
+    if (!body) return []
+    const assignee = MENTION.exec(body)?.[1] ?? ASSIGNED_TO.exec(body)?.[1]
+    const due = DUE.exec(body)?.[1]
+    // The assignee and due date get their own fields, so they are taken out of the item text.
+    const rest = [MENTION, ASSIGNED_TO, DUE]
+      .reduce((t, pattern) => t.replace(pattern, ' '), body)
+      .replace(/\s+([,.;])/g, '$1')
+      .replace(/[\s,;]+$/, '')
+      .replace(/\s+/g, ' ')
+      .trim()
+    const itemText = rest || body
+    return [
+      {
+        text: itemText.charAt(0).toUpperCase() + itemText.slice(1),
+        done: segment.checked ?? false,
+        ...(assignee ? { assignee } : {}),
+        ...(due ? { due } : {}),
+        ...(sourceBlockId ? { sourceBlockId } : {}),
+      },
+    ]
+  })
+}
+
+export const createChecklistItem = (item: ExtractedActionItem): ChecklistItem => ({ id: createId('ITEM'), ...item })
+
+/** Tall enough to show every item without scrolling, within reason. */
+export const checklistHeight = (itemCount: number) => Math.min(640, Math.max(200, CHROME_HEIGHT + itemCount * ROW_HEIGHT))
+
+export const openItems = (block: ChecklistBlock) => block.items.filter((item) => !item.done)
+
+/** `Book the venue (@ann, due 2024-10-01)` */
+export function describeChecklistItem(item: ChecklistItem): string {
+  const details = [item.assignee ? `@${item.assignee.replace(/^@/, '')}` : '', item.due ? `due ${item.due}` : ''].filter(Boolean)
+  return details.length ? `${item.text} (${details.join(', ')})` : item.text
+}
+
+/** Plain-text checklist with `[ ]` / `[x]` boxes, for clipboards and the API. */
+export const checklistToText = (block: ChecklistBlock) =>
+  [block.title, ...block.items.map((item) => `[${item.done ? 'x' : ' '}] ${describeChecklistItem(item)}`)].join('\n')
+
+/** The items with the one at `index` moved by `delta` places; out-of-range moves change nothing. */
+export function moveItem(items: ChecklistItem[], index: number, delta: number): ChecklistItem[] {
+  const target = index + delta
+  if (index < 0 || index >= items.length || target < 0 || target >= items.length) return items
+  const next = [...items]
+  const [moved] = next.splice(index, 1)
+  next.splice(target, 0, moved)
+  return next
+}
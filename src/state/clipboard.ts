@@ -0,0 +1,107 @@
+import type { Block } from '../models/canvas'
+import { createBundle, parseBundle } from './bundle'
+import type { CanvasBundle } from './bundle'
+import type { SummaryStore } from './persistence'
+import { checklistToText } from './checklists'
+import { describeDecision } from './decisions'
+
+/** Copied blocks travel as a small canvas bundle under this type, so they go through the same validation as imports. */
+export const CLIPBOARD_MIME = 'application/x-recap-canvas'
+
+export type ClipboardContent =
+  | { kind: 'blocks'; bundle: CanvasBundle }
+  | { kind: 'image'; file: File }
+  | { kind: 'link'; url: string }
+  | { kind: 'text'; text: string }
+
+const BARE_URL = /^https?:\/\/\S+$/i
+
+export const isBareUrl = (text: string) => {
+  if (!BARE_URL.test(text)) return false
+  try {
+    new URL(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Bundle of the copied blocks plus any summaries their summary_ref and frame blocks point at. */
+export function createClipboardBundle(blocks: Block[], summaries: SummaryStore): CanvasBundle {
+  const referenced = new Set(
+    blocks.flatMap((b) => {
+      if (b.type === 'summary_ref') return [b.summaryId]
+      if (b.type === 'frame' && b.summaryId) return [b.summaryId]
+      return []
+    })
+  )
+  return createBundle({
+    name: 'Clipboard',
+    zoom: null,
+    blocks,
+    summaries: Object.fromEntries(Object.entries(summaries).filter(([id]) => referenced.has(id))),
+  })
+}
+
+/** What other apps get when blocks are pasted outside the canvas. */
+export function blocksToPlainText(blocks: Block[]): string {
+  return blocks
+    .map((b) => {
+      switch (b.type) {
+        case 'text':
+          return b.text
+        case 'link':
+          return b.label && b.label !== b.url ? `${b.label} (${b.url})` : b.url
+        case 'image': {
+          const url = b.src.startsWith('data:') ? '' : b.src
+          return [b.caption, url].filter(Boolean).join('\n')
+        }
+        case 'summary':
+          return b.summaryText
+        case 'summary_ref':
+          return b.summaryText ?? b.preview
+        case 'frame':
+          return b.title
+        case 'decision':
+          return describeDecision(b)
+        case 'checklist':
+          return checklistToText(b)
+        case 'connector':
+          return ''
+      }
+    })
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+/** Picks the most specific thing on the clipboard: copied blocks, then an image, then a bare URL, then text. */
+export function readClipboardContent(data: DataTransfer): ClipboardContent | null {
+  const raw = data.getData(CLIPBOARD_MIME)
+  if (raw) {
+    const parsed = parseBundle(raw)
+    if (parsed.ok) return { kind: 'blocks', bundle: parsed.bundle }
+    console.warn('Ignoring unreadable copied blocks', parsed.error)
+  }
+  const image = Array.from(data.files).find((file) => file.type.startsWith('image/'))
+  if (image) return { kind: 'image', file: image }
+  const text = data.getData('text/plain').trim()
+  if (!text) return null
+  return isBareUrl(text) ? { kind: 'link', url: text } : { kind: 'text', text }
+}
+
+export const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+
+/** Height/width of an image, or undefined when it cannot be decoded. */
+export const measureImageAspect = (src: string) =>
+  new Promise<number | undefined>((resolve) => {
+    const img = new Image()
+    img.onload = () => resolve(img.naturalWidth ? img.naturalHeight / img.naturalWidth : undefined)
+    img.onerror = () => resolve(undefined)
+    img.src = src
+  })
@@ -0,0 +1,47 @@
+import type { Block, ConnectorBlock } from '../models/canvas'
+import { isConnector } from '../models/canvas'
+
+export const RELATIONSHIP_SUGGESTIONS = ['because', 'led to', 'contradicts', 'replaced by']
+
+/** A connector reduced to what summaries and the API need. */
+export type Relationship = { id: string; fromId: string; toId: string; label: string }
+
+type Rect = { x: number; y: number; width: number; height: number }
+
+export type ConnectorGeometry = { x1: number; y1: number; x2: number; y2: number; midX: number; midY: number }
+
+/** Connectors whose two ends both lie in the scope. */
+export function relationshipsWithin(blocks: Block[], scopeIds: Iterable<string>): Relationship[] {
+  const scope = new Set(scopeIds)
+  return blocks
+    .filter(isConnector)
+    .filter((c) => scope.has(c.fromId) && scope.has(c.toId))
+    .map(({ id, fromId, toId, label }) => ({ id, fromId, toId, label }))
+}
+
+export const describeRelationship = (r: Relationship) => `${r.fromId} ${r.label.trim() || 'relates to'} ${r.toId}`
+
+/** Connectors left pointing at a missing block once `removedIds` are gone. */
+export const danglingConnectors = (blocks: Block[], removedIds: Set<string>): ConnectorBlock[] =>
+  blocks.filter(isConnector).filter((c) => removedIds.has(c.fromId) || removedIds.has(c.toId))
+
+/** Where the ray from the rect's centre towards (x, y) leaves the rect. */
+const edgePoint = (rect: Rect, x: number, y: number) => {
+  const cx = rect.x + rect.width / 2
+  const cy = rect.y + rect.height / 2
+  const dx = x - cx
+  const dy = y - cy
+  if (!dx && !dy) return { x: cx, y: cy }
+  const scale = Math.min(
+    dx ? rect.width / 2 / Math.abs(dx) : Infinity,
+    dy ? rect.height / 2 / Math.abs(dy) : Infinity
+  )
+  return { x: cx + dx * Math.min(1, scale), y: cy + dy * Math.min(1, scale) }
+}
+
+/** Straight arrow between the two blocks' borders along the line joining their centres. */
+export function connectorGeometry(from: Rect, to: Rect): ConnectorGeometry {
+  const start = edgePoint(from, to.x + to.width / 2, to.y + to.height / 2)
+  const end = edgePoint(to, from.x + from.width / 2, from.y + from.height / 2)
+  return { x1: start.x, y1: start.y, x2: end.x, y2: end.y, midX: (start.x + end.x) / 2, midY: (start.y + end.y) / 2 }
+}
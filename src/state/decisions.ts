@@ -0,0 +1,30 @@
+import type { DecisionBlock, DecisionStatus } from '../models/canvas'
+
+export const DECISION_STATUS_LABELS: Record<DecisionStatus, string> = {
+  proposed: 'Proposed',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  superseded: 'Superseded',
+}
+
+/** Accepted first, then proposals, then what no longer applies. */
+const STATUS_ORDER: DecisionStatus[] = ['accepted', 'proposed', 'superseded', 'rejected']
+
+export const sortDecisions = (decisions: DecisionBlock[]) =>
+  [...decisions].sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status))
+
+/** "Ann, 2024-09-10" or whichever half is known. */
+export const decisionAttribution = (block: DecisionBlock) => [block.owner.trim(), block.date.trim()].filter(Boolean).join(', ')
+
+/**
+ * One line per decision with its status up front, so superseded and rejected records can never be
+ * read as current: `Superseded: Use mirrors (Ann, 2024-09-10). Why: … Alternatives considered: …`
+ */
+export function describeDecision(block: DecisionBlock, options: { rationale?: boolean; alternatives?: boolean } = {}) {
+  const { rationale = true, alternatives = true } = options
+  const attribution = decisionAttribution(block)
+  const parts = [`${DECISION_STATUS_LABELS[block.status]}: ${block.decision.trim() || 'Untitled decision'}${attribution ? ` (${attribution})` : ''}.`]
+  if (rationale && block.rationale.trim()) parts.push(`Why: ${block.rationale.trim()}`)
+  if (alternatives && block.alternatives.length) parts.push(`Alternatives considered: ${block.alternatives.join('; ')}.`)
+  return parts.join(' ')
+}
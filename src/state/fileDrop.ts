@@ -0,0 +1,93 @@
+import { measureImageAspect, readFileAsDataUrl } from './clipboard'
+
+/** Images are stored inline as data URLs, so very large ones would crowd out the rest of the canvas in storage. */
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024
+const TEXT_EXTENSIONS = /\.(txt|md|markdown|text|vtt|srt)$/i
+
+export type DroppedItem =
+  | { kind: 'image'; name: string; src: string; aspectRatio?: number }
+  | { kind: 'text'; name: string; text: string }
+
+export type DroppedFiles = { items: DroppedItem[]; skipped: string[] }
+
+const ATX_HEADING = /^#{1,6}\s+\S/
+const SETEXT_UNDERLINE = /^(=+|-+)\s*$/
+
+/**
+ * Splits a note into one chunk per heading (Markdown `#` headings or `===`/`---` underlined ones).
+ * Text with fewer than two headings stays in one piece; anything before the first heading is kept
+ * as its own chunk.
+ */
+export function splitByHeadings(text: string): string[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n')
+  const starts: number[] = []
+  lines.forEach((line, idx) => {
+    if (ATX_HEADING.test(line)) starts.push(idx)
+    else if (idx > 0 && SETEXT_UNDERLINE.test(line) && lines[idx - 1].trim() && !starts.includes(idx - 1)) {
+      starts.push(idx - 1)
+    }
+  })
+  if (starts.length < 2) return [text.trim()].filter(Boolean)
+
+  const bounds = [0, ...starts.filter((start) => start > 0), lines.length]
+  return bounds
+    .slice(0, -1)
+    .map((start, idx) => lines.slice(start, bounds[idx + 1]).join('\n').trim())
+    .filter(Boolean)
+}
+
+const isTextFile = (file: File) => file.type.startsWith('text/') || TEXT_EXTENSIONS.test(file.name)
+
+/** Reads dropped files in order; unsupported or oversized files are reported by name instead of failing the drop. */
+export async function readDroppedFiles(files: File[]): Promise<DroppedFiles> {
+  const items: DroppedItem[] = []
+  const skipped: string[] = []
+  for (const file of files) {
+    try {
+      if (file.type.startsWith('image/')) {
+        if (file.size > MAX_IMAGE_BYTES) {
+          skipped.push(file.name)
+          continue
+        }
+        const src = await readFileAsDataUrl(file)
+        items.push({ kind: 'image', name: file.name, src, aspectRatio: await measureImageAspect(src) })
+      } else if (isTextFile(file)) {
+        splitByHeadings(await file.text()).forEach((text) => items.push({ kind: 'text', name: file.name, text }))
+      } else {
+        skipped.push(file.name)
+      }
+    } catch (err) {
+      console.warn(`Failed to read dropped file ${file.name}`, err)
+      skipped.push(file.name)
+    }
+  }
+  return { items, skipped }
+}
+
+/** Rough rendered height of a text block, so grid rows do not overlap before the blocks measure themselves. */
+export const estimateTextHeight = (text: string, width: number) => {
+  const charsPerLine = Math.max(20, Math.floor((width - 24) / 7.5))
+  const lines = text.split('\n').reduce((sum, line) => sum + Math.max(1, Math.ceil(line.length / charsPerLine)), 0)
+  return 60 + lines * 20
+}
+
+/**
+ * Top-left positions for a roughly square grid of boxes starting at `origin`, one row at a time.
+ * Each row is as tall as its tallest box.
+ */
+export function gridLayout(
+  sizes: Array<{ width: number; height: number }>,
+  origin: { x: number; y: number },
+  gap = 40
+): Array<{ x: number; y: number }> {
+  const columns = Math.max(1, Math.ceil(Math.sqrt(sizes.length)))
+  const columnWidth = Math.max(0, ...sizes.map((s) => s.width)) + gap
+  const positions: Array<{ x: number; y: number }> = []
+  let rowTop = origin.y
+  for (let row = 0; row * columns < sizes.length; row += 1) {
+    const rowSizes = sizes.slice(row * columns, (row + 1) * columns)
+    rowSizes.forEach((_, col) => positions.push({ x: origin.x + col * columnWidth, y: rowTop }))
+    rowTop += Math.max(...rowSizes.map((s) => s.height)) + gap
+  }
+  return positions
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { Block, FrameBlock, SummaryBlock, TextBlock } from '../models/canvas'
+import { frameMembers, frameScope, frameSummaryStatus } from './frames'
+import { contentVersion } from './summaryVersions'
+import { stampChangedBlocks } from './sync'
+
+const at = '2024-05-01T10:00:00.000Z'
+
+const frame: FrameBlock = {
+  id: 'F-1',
+  type: 'frame',
+  title: 'Research',
+  x: 0,
+  y: 0,
+  width: 800,
+  height: 600,
+  summaryId: 'S-1',
+  createdAt: at,
+  updatedAt: at,
+}
+
+const note = (id: string, x: number, text: string): TextBlock => ({
+  id,
+  type: 'text',
+  text,
+  x,
+  y: 40,
+  width: 300,
+  height: 120,
+  createdAt: at,
+  updatedAt: at,
+})
+
+const summarize = (scope: Block[]): SummaryBlock => ({
+  id: 'S-1',
+  type: 'summary',
+  title: 'Research',
+  evidenceBlockIds: scope.map((b) => b.id),
+  summaryText: '• Notes',
+  citations: [],
+  spans: [],
+  scope: { kind: 'selection', blockIds: scope.map((b) => b.id) },
+  qa: [],
+  provenance: { provider: 'mock', sourceVersions: Object.fromEntries(scope.map((b) => [b.id, contentVersion(b)])) },
+  x: 0,
+  y: 0,
+  width: 360,
+  createdAt: at,
+  updatedAt: at,
+})
+
+const heightOf = (b: Block) => b.height ?? 120
+
+const statusOf = (blocks: Block[], summary: SummaryBlock) => {
+  const current = blocks.find((b): b is FrameBlock => b.id === frame.id) as FrameBlock
+  const scope = frameScope(frameMembers(current, blocks, heightOf))
+  return frameSummaryStatus(current, scope, { [summary.id]: summary }, new Map(blocks.map((b) => [b.id, b])))
+}
+
+describe('frameSummaryStatus', () => {
+  const blocks: Block[] = [frame, note('T-1', 20, 'Interviews point at onboarding.'), note('T-2', 400, 'Pricing is unclear.')]
+  const summary = summarize(blocks.filter((b) => b.type === 'text'))
+
+  it('stays current when the frame is dragged with its members', () => {
+    // Dragging goes through the same stamping as any edit, so every moved block gets a new `updatedAt`.
+    const moved = stampChangedBlocks(
+      blocks,
+      blocks.map((b) => ({ ...b, x: b.x + 250, y: b.y + 90 }))
+    )
+    expect(moved.every((b) => b.updatedAt !== at)).toBe(true)
+    expect(statusOf(moved, summary)).toBe('current')
+  })
+
+  it('goes stale when a member is edited', () => {
+    const edited = stampChangedBlocks(
+      blocks,
+      blocks.map((b) => (b.id === 'T-2' && b.type === 'text' ? { ...b, text: 'Pricing is settled.' } : b))
+    )
+    expect(statusOf(edited, summary)).toBe('stale')
+  })
+
+  it('goes stale when a member is moved out of the frame', () => {
+    const moved = blocks.map((b) => (b.id === 'T-2' ? { ...b, x: 1200 } : b))
+    expect(statusOf(moved, summary)).toBe('stale')
+  })
+})
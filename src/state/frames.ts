@@ -0,0 +1,43 @@
+import type { Block, FrameBlock } from '../models/canvas'
+import { changedSources } from './summaryVersions'
+import type { SummaryStore } from './persistence'
+
+export type FrameSummaryStatus = 'none' | 'current' | 'stale'
+
+type HeightOf = (block: Block) => number
+
+/** Blocks lying entirely within the frame's bounds, nested frames included. Connectors follow their ends. */
+export function frameMembers(frame: FrameBlock, blocks: Block[], heightOf: HeightOf): Block[] {
+  const right = frame.x + frame.width
+  const bottom = frame.y + frame.height
+  return blocks.filter(
+    (b) =>
+      b.id !== frame.id &&
+      b.type !== 'connector' &&
+      b.x >= frame.x &&
+      b.y >= frame.y &&
+      b.x + b.width <= right &&
+      b.y + heightOf(b) <= bottom
+  )
+}
+
+/** The members a frame summary covers: content blocks only, since frames themselves carry no notes. */
+export const frameScope = (members: Block[]) => members.filter((b) => b.type !== 'frame')
+
+/**
+ * A frame summary is stale once blocks have moved in or out of the frame, or
+ * any block it covered was edited or deleted since it was generated. Moving the
+ * frame along with its members changes no content, so the summary stays current.
+ */
+export function frameSummaryStatus(
+  frame: FrameBlock,
+  scope: Block[],
+  summaries: SummaryStore,
+  lookup: Map<string, Block>
+): FrameSummaryStatus {
+  const summary = frame.summaryId ? summaries[frame.summaryId] : undefined
+  if (!summary) return 'none'
+  const covered = new Set(summary.scope.blockIds)
+  const sameMembers = covered.size === scope.length && scope.every((b) => covered.has(b.id))
+  return sameMembers && !changedSources(summary, lookup).length ? 'current' : 'stale'
+}
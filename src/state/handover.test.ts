@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import type { Block, LinkBlock, TextBlock } from '../models/canvas'
+import { buildHandover, handoverToHtml, handoverToMarkdown } from './handover'
+import type { HandoverSource } from './handover'
+
+const at = '2024-05-01T10:00:00.000Z'
+
+const note: TextBlock = { id: 'T-1', type: 'text', text: 'Try <img src=x onerror=alert(1)> here', x: 0, y: 0, width: 300, createdAt: at, updatedAt: at }
+const link = (id: string, url: string, label = url): LinkBlock => ({ id, type: 'link', url, label, x: 0, y: 0, width: 360, createdAt: at, updatedAt: at })
+
+const script = link('L-1', 'javascript:alert(1)', 'Click <b>me</b>')
+const spaced = link('L-2', 'https://example.com/notes (draft) v2.html', 'Notes (draft)')
+const blocks: Block[] = [note, script, spaced]
+
+const source: HandoverSource = {
+  title: 'Review <script>alert(1)</script>',
+  summaryText: '• Risky markup <script>alert(1)</script> [1]\n• Links [2]',
+  citations: [
+    { n: 1, blockIds: ['T-1'] },
+    { n: 2, blockIds: ['L-1', 'L-2'] },
+  ],
+  scope: { kind: 'selection', blockIds: ['T-1', 'L-1', 'L-2'] },
+}
+
+const doc = buildHandover(source, blocks)
+
+describe('buildHandover', () => {
+  it('turns known citation markers into shared footnotes and keeps unknown ones as text', () => {
+    const built = buildHandover({ ...source, summaryText: '• First [1] and [9]\n• Again [1]' }, blocks)
+    expect(built.body).toEqual([
+      { kind: 'bullet', segments: [{ text: 'First ' }, { footnote: 1 }, { text: ' and [9]' }] },
+      { kind: 'bullet', segments: [{ text: 'Again ' }, { footnote: 1 }] },
+    ])
+    expect(built.footnotes).toEqual([{ n: 1, blockIds: ['T-1'] }])
+  })
+})
+
+describe('handoverToMarkdown', () => {
+  const markdown = handoverToMarkdown(doc, blocks)
+
+  it('escapes markup in text', () => {
+    expect(markdown).toContain('# Review \\<script\\>alert(1)\\</script\\>')
+    expect(markdown).toContain('- Risky markup \\<script\\>alert(1)\\</script\\> [^1]')
+    expect(markdown).toContain('“Try \\<img src=x onerror=alert(1)\\> here”')
+    expect(markdown).not.toMatch(/[^\\]<script>/)
+  })
+
+  it('prints non-web URLs as text instead of links', () => {
+    expect(markdown).toContain('- `L-1` Click \\<b\\>me\\</b\\> (javascript:alert(1))')
+    expect(markdown).not.toContain('](javascript:')
+    expect(markdown).not.toContain('<javascript:')
+  })
+
+  it('percent-encodes spaces and parentheses in link targets', () => {
+    expect(markdown).toContain('- `L-2` [Notes (draft)](https://example.com/notes%20%28draft%29%20v2.html)')
+    expect(markdown).toContain('<https://example.com/notes%20%28draft%29%20v2.html>')
+  })
+})
+
+describe('handoverToHtml', () => {
+  const html = handoverToHtml(doc, blocks)
+
+  it('escapes markup in text', () => {
+    expect(html).toContain('<title>Review &lt;script&gt;alert(1)&lt;/script&gt;</title>')
+    expect(html).toContain('<li>Risky markup &lt;script&gt;alert(1)&lt;/script&gt; <sup class="fn-ref"><a href="#fn-1">1</a></sup></li>')
+    expect(html).toContain('<q>Try &lt;img src=x onerror=alert(1)&gt; here</q>')
+    expect(html).not.toContain('<script>')
+    expect(html).not.toContain('<img')
+  })
+
+  it('prints non-web URLs as text instead of links', () => {
+    expect(html).toContain('<li><code>L-1</code> Click &lt;b&gt;me&lt;/b&gt; (javascript:alert(1))</li>')
+    expect(html).not.toContain('href="javascript:')
+  })
+
+  it('keeps web URLs with spaces and parentheses as one quoted link', () => {
+    expect(html).toContain('<a href="https://example.com/notes (draft) v2.html">Notes (draft)</a>')
+  })
+
+  it('escapes quotes so a URL cannot break out of its attribute', () => {
+    const quoted = link('L-3', 'https://example.com/"onmouseover="alert(1)')
+    const out = handoverToHtml(buildHandover({ ...source, scope: { kind: 'selection', blockIds: ['L-3'] } }, [quoted]), [quoted])
+    expect(out).toContain('href="https://example.com/&quot;onmouseover=&quot;alert(1)"')
+  })
+})
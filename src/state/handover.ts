@@ -0,0 +1,323 @@
+import type { Block, Citation, LinkBlock, SummaryBlock, SummarySpan } from '../models/canvas'
+import { fileSlug } from './bundle'
+import { checklistToText } from './checklists'
+import { describeDecision } from './decisions'
+
+/** The parts of a selection or canvas summary that end up in a handover document. */
+export type HandoverSource = {
+  title: string
+  summaryText: string
+  sections?: Record<string, string>
+  citations?: Citation[]
+  spans?: SummarySpan[]
+  scope: { kind: 'selection' | 'canvas'; blockIds: string[] }
+  messages?: SummaryBlock['messages']
+}
+
+type Segment = { text: string } | { footnote: number }
+
+type Paragraph = { kind: 'heading' | 'bullet' | 'text'; segments: Segment[] }
+
+type Footnote = { n: number; blockIds: string[] }
+
+export type HandoverDocument = {
+  title: string
+  scopeLabel: string
+  exportedAt: string
+  body: Paragraph[]
+  thread: Array<{ role: 'user' | 'assistant'; segments: Segment[] }>
+  footnotes: Footnote[]
+  links: LinkBlock[]
+}
+
+const QUOTE_LIMIT = 280
+
+const quote = (text: string) => {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  return flat.length > QUOTE_LIMIT ? `${flat.slice(0, QUOTE_LIMIT - 1)}…` : flat
+}
+
+/**
+ * Resolves the summary body and Q&A thread into paragraphs whose citation markers point at one shared,
+ * document-wide footnote list. Each summary and each answer numbers its citations from 1, so identical
+ * block sets are deduplicated into a single footnote.
+ */
+export function buildHandover(source: HandoverSource, blocks: Block[]): HandoverDocument {
+  const footnotes: Footnote[] = []
+  const footnoteByKey = new Map<string, number>()
+  const footnoteFor = (citation: Citation | undefined) => {
+    if (!citation || !citation.blockIds.length) return null
+    const key = [...new Set(citation.blockIds)].sort().join('|')
+    const existing = footnoteByKey.get(key)
+    if (existing) return existing
+    const n = footnotes.length + 1
+    footnotes.push({ n, blockIds: key.split('|') })
+    footnoteByKey.set(key, n)
+    return n
+  }
+
+  // Inline "[n]" markers become footnote references; unknown numbers stay as plain text.
+  const resolveMarkers = (text: string, citations: Citation[]): Segment[] => {
+    const byN = new Map(citations.map((c) => [c.n, c]))
+    const segments: Segment[] = []
+    const regex = /\[(\d+)\]/g
+    let lastIndex = 0
+    let match
+    while ((match = regex.exec(text)) !== null) {
+      const footnote = footnoteFor(byN.get(Number(match[1])))
+      if (footnote === null) continue
+      if (match.index > lastIndex) segments.push({ text: text.slice(lastIndex, match.index) })
+      segments.push({ footnote })
+      lastIndex = match.index + match[0].length
+    }
+    if (lastIndex < text.length) segments.push({ text: text.slice(lastIndex) })
+    return segments
+  }
+
+  const citations = source.citations ?? []
+  const body: Paragraph[] = []
+  if (source.sections && Object.keys(source.sections).length) {
+    Object.entries(source.sections).forEach(([heading, value]) => {
+      body.push({ kind: 'heading', segments: [{ text: heading }] })
+      body.push({ kind: 'text', segments: resolveMarkers(value, citations) })
+    })
+  } else {
+    // Local summaries cite whole lines through spans rather than inline markers.
+    const byN = new Map(citations.map((c) => [c.n, c]))
+    let offset = 0
+    source.summaryText.split('\n').forEach((line) => {
+      const start = offset
+      offset += line.length + 1
+      const trimmed = line.trim()
+      if (!trimmed) return
+      const spanFootnotes = (source.spans ?? [])
+        .filter((span) => span.start === start)
+        .flatMap((span) => span.citationNs.map((n) => footnoteFor(byN.get(n))))
+        .filter((n): n is number => n !== null)
+      if (trimmed.startsWith('•')) {
+        const segments = resolveMarkers(trimmed.replace(/^•\s*/, ''), citations)
+        body.push({ kind: 'bullet', segments: [...segments, ...spanFootnotes.map((footnote) => ({ footnote }))] })
+      } else if (trimmed.endsWith(':') && !spanFootnotes.length) {
+        body.push({ kind: 'heading', segments: [{ text: trimmed.slice(0, -1) }] })
+      } else {
+        const segments = resolveMarkers(trimmed, citations)
+        body.push({ kind: 'text', segments: [...segments, ...spanFootnotes.map((footnote) => ({ footnote }))] })
+      }
+    })
+  }
+
+  const thread = (source.messages ?? []).map((msg) => ({
+    role: msg.role,
+    segments: msg.role === 'assistant' ? resolveMarkers(msg.text, msg.citations) : [{ text: msg.text }],
+  }))
+
+  const scopeIds = new Set(source.scope.blockIds)
+  const links = blocks.filter((b): b is LinkBlock => b.type === 'link' && scopeIds.has(b.id))
+
+  return {
+    title: source.title,
+    scopeLabel:
+      source.scope.kind === 'canvas'
+        ? `Whole canvas · ${source.scope.blockIds.length} blocks`
+        : `Selection · ${source.scope.blockIds.join(', ')}`,
+    exportedAt: new Date().toISOString(),
+    body,
+    thread,
+    footnotes,
+    links,
+  }
+}
+
+type SourceLine = { id: string; kind: string; quote?: string; url?: string; label?: string }
+
+const describeBlock = (id: string, lookup: Map<string, Block>): SourceLine => {
+  const block = lookup.get(id)
+  if (!block) return { id, kind: 'missing' }
+  switch (block.type) {
+    case 'text':
+      return { id, kind: 'text', quote: quote(block.text) }
+    case 'link':
+      return { id, kind: 'link', label: block.label, url: block.url }
+    case 'image':
+      return {
+        id,
+        kind: 'image',
+        label: block.caption,
+        url: block.src.startsWith('data:') ? undefined : block.src,
+      }
+    case 'summary':
+      return { id, kind: 'summary', label: block.title, quote: quote(block.summaryText) }
+    case 'summary_ref':
+      return { id, kind: 'summary', label: block.title, quote: quote(block.preview) }
+    case 'frame':
+      return { id, kind: 'area', label: block.title }
+    case 'connector':
+      return { id, kind: 'relationship', label: `${block.fromId} ${block.label || 'relates to'} ${block.toId}` }
+    case 'decision':
+      return { id, kind: 'decision', label: describeDecision(block, { alternatives: false }) }
+    case 'checklist':
+      return { id, kind: 'checklist', label: block.title, quote: quote(checklistToText(block)) }
+  }
+}
+
+const markdownEscape = (text: string) => text.replace(/([\\`*_[\]<>])/g, '\\$1')
+
+/** Only web links become live links in an export; `javascript:`, `data:` and the like are printed as text. */
+const isWebUrl = (url: string) => {
+  try {
+    const { protocol } = new URL(url)
+    return protocol === 'http:' || protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Spaces, parentheses and angle brackets would end a Markdown link target early.
+const markdownUrl = (url: string) =>
+  url.replace(/[ ()<>]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)
+
+const markdownSegments = (segments: Segment[]) =>
+  segments.map((s) => ('text' in s ? markdownEscape(s.text) : `[^${s.footnote}]`)).join('')
+
+const markdownSource = (line: SourceLine) => {
+  const parts = [`\`${line.id}\` (${line.kind === 'missing' ? 'no longer on the canvas' : line.kind})`]
+  if (line.label) parts.push(markdownEscape(line.label))
+  if (line.url) parts.push(isWebUrl(line.url) ? `<${markdownUrl(line.url)}>` : markdownEscape(line.url))
+  if (line.quote) parts.push(`“${markdownEscape(line.quote)}”`)
+  return parts.join(' — ')
+}
+
+export function handoverToMarkdown(doc: HandoverDocument, blocks: Block[]): string {
+  const lookup = new Map(blocks.map((b) => [b.id, b]))
+  const out: string[] = [`# ${markdownEscape(doc.title)}`, '', `_${doc.scopeLabel} · exported ${doc.exportedAt}_`, '']
+  doc.body.forEach((p) => {
+    if (p.kind === 'heading') out.push('', `## ${markdownSegments(p.segments)}`, '')
+    else if (p.kind === 'bullet') out.push(`- ${markdownSegments(p.segments)}`)
+    else out.push(markdownSegments(p.segments), '')
+  })
+  if (doc.thread.length) {
+    out.push('', '## Questions & answers', '')
+    doc.thread.forEach((m) => {
+      out.push(`**${m.role === 'user' ? 'Q' : 'A'}:** ${markdownSegments(m.segments)}`, '')
+    })
+  }
+  if (doc.links.length) {
+    out.push('', '## Links', '')
+    doc.links.forEach((l) => {
+      const label = markdownEscape(l.label || l.url)
+      out.push(
+        isWebUrl(l.url)
+          ? `- \`${l.id}\` [${label}](${markdownUrl(l.url)})`
+          : `- \`${l.id}\` ${label}${l.label && l.label !== l.url ? ` (${markdownEscape(l.url)})` : ''}`
+      )
+    })
+  }
+  if (doc.footnotes.length) {
+    out.push('')
+    doc.footnotes.forEach((f) => {
+      const sources = f.blockIds.map((id) => markdownSource(describeBlock(id, lookup)))
+      out.push(`[^${f.n}]: ${sources.join('; ')}`)
+    })
+  }
+  return `${out.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`
+}
+
+const htmlEscape = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+const htmlSegments = (segments: Segment[]) =>
+  segments
+    .map((s) =>
+      'text' in s
+        ? htmlEscape(s.text)
+        : `<sup class="fn-ref"><a href="#fn-${s.footnote}">${s.footnote}</a></sup>`
+    )
+    .join('')
+
+const htmlSource = (line: SourceLine) => {
+  const parts = [`<code>${htmlEscape(line.id)}</code> (${line.kind === 'missing' ? 'no longer on the canvas' : line.kind})`]
+  if (line.label) parts.push(htmlEscape(line.label))
+  if (line.url) {
+    parts.push(isWebUrl(line.url) ? `<a href="${htmlEscape(line.url)}">${htmlEscape(line.url)}</a>` : htmlEscape(line.url))
+  }
+  if (line.quote) parts.push(`<q>${htmlEscape(line.quote)}</q>`)
+  return parts.join(' — ')
+}
+
+const HTML_STYLE = `
+body { font-family: system-ui, -apple-system, 'Segoe UI', sans-serif; color: #1f2933; max-width: 760px; margin: 40px auto; padding: 0 20px; line-height: 1.55; }
+h1 { margin-bottom: 4px; }
+.meta { color: #4d596a; font-size: 14px; margin-top: 0; }
+h2 { margin-top: 28px; font-size: 18px; }
+.fn-ref a { text-decoration: none; color: #2563eb; }
+.qa p { margin: 6px 0; }
+.qa .q { font-weight: 600; }
+.footnotes { margin-top: 32px; border-top: 1px solid #d0d7de; font-size: 14px; color: #334155; }
+code { background: #f1f5f9; padding: 1px 4px; border-radius: 4px; }
+`
+
+/** Self-contained HTML (inline styles, no external assets) suitable for pasting into docs or mailing around. */
+export function handoverToHtml(doc: HandoverDocument, blocks: Block[]): string {
+  const lookup = new Map(blocks.map((b) => [b.id, b]))
+  const body: string[] = []
+  let listOpen = false
+  doc.body.forEach((p) => {
+    if (p.kind === 'bullet' && !listOpen) {
+      body.push('<ul>')
+      listOpen = true
+    } else if (p.kind !== 'bullet' && listOpen) {
+      body.push('</ul>')
+      listOpen = false
+    }
+    if (p.kind === 'heading') body.push(`<h2>${htmlSegments(p.segments)}</h2>`)
+    else if (p.kind === 'bullet') body.push(`<li>${htmlSegments(p.segments)}</li>`)
+    else body.push(`<p>${htmlSegments(p.segments)}</p>`)
+  })
+  if (listOpen) body.push('</ul>')
+
+  if (doc.thread.length) {
+    body.push('<h2>Questions &amp; answers</h2>', '<div class="qa">')
+    doc.thread.forEach((m) => {
+      const label = m.role === 'user' ? 'Q' : 'A'
+      body.push(`<p class="${label.toLowerCase()}"><strong>${label}:</strong> ${htmlSegments(m.segments)}</p>`)
+    })
+    body.push('</div>')
+  }
+  if (doc.links.length) {
+    body.push('<h2>Links</h2>', '<ul>')
+    doc.links.forEach((l) => {
+      const label = htmlEscape(l.label || l.url)
+      const link = isWebUrl(l.url)
+        ? `<a href="${htmlEscape(l.url)}">${label}</a>`
+        : `${label}${l.label && l.label !== l.url ? ` (${htmlEscape(l.url)})` : ''}`
+      body.push(`<li><code>${htmlEscape(l.id)}</code> ${link}</li>`)
+    })
+    body.push('</ul>')
+  }
+  if (doc.footnotes.length) {
+    body.push('<ol class="footnotes">')
+    doc.footnotes.forEach((f) => {
+      const sources = f.blockIds.map((id) => htmlSource(describeBlock(id, lookup)))
+      body.push(`<li id="fn-${f.n}">${sources.join('; ')}</li>`)
+    })
+    body.push('</ol>')
+  }
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${htmlEscape(doc.title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${htmlEscape(doc.title)}</h1>
+<p class="meta">${htmlEscape(doc.scopeLabel)} · exported ${htmlEscape(doc.exportedAt)}</p>
+${body.join('\n')}
+</body>
+</html>
+`
+}
+
+export const handoverFileName = (title: string, extension: 'md' | 'html') =>
+  `${fileSlug(title, 'summary')}.${extension}`
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import type { Block, TextBlock } from '../models/canvas'
+import { applyCommand, createCommand, emptyHistory, HISTORY_LIMIT, pushCommand } from './history'
+import type { HistoryCommand } from './history'
+
+const at = '2024-05-01T10:00:00.000Z'
+
+const note = (id: string, text: string): TextBlock => ({ id, type: 'text', text, x: 0, y: 0, width: 300, createdAt: at, updatedAt: at })
+
+const withText = (blocks: Block[], id: string, text: string) => blocks.map((b) => (b.id === id && b.type === 'text' ? { ...b, text } : b))
+
+/** A command with a fixed timestamp, so merge windows do not depend on the clock. */
+const command = (label: string, prev: Block[], next: Block[], time: number, mergeKey?: string): HistoryCommand => {
+  const created = createCommand(label, prev, next, mergeKey)
+  if (!created) throw new Error('no change')
+  return { ...created, at: time }
+}
+
+describe('createCommand', () => {
+  it('returns null when nothing changed', () => {
+    const blocks = [note('T-1', 'a')]
+    expect(createCommand('Nothing', blocks, blocks)).toBeNull()
+  })
+
+  it('records order only when it changed', () => {
+    const blocks = [note('T-1', 'a'), note('T-2', 'b')]
+    expect(createCommand('Edit', blocks, withText(blocks, 'T-1', 'c'))?.orderBefore).toBeUndefined()
+    expect(createCommand('Reorder', blocks, [blocks[1], blocks[0]])).toMatchObject({ orderBefore: ['T-1', 'T-2'], orderAfter: ['T-2', 'T-1'] })
+  })
+})
+
+describe('pushCommand', () => {
+  const start = [note('T-1', '')]
+  const typed = withText(start, 'T-1', 'H')
+  const more = withText(typed, 'T-1', 'Hi')
+
+  it('merges commands with the same key inside the window into one step', () => {
+    const first = pushCommand(emptyHistory, command('Edit note', start, typed, 1000, 'text:T-1'))
+    const second = pushCommand(first, command('Edit note', typed, more, 2000, 'text:T-1'))
+    expect(second.undo).toHaveLength(1)
+    expect(second.undo[0].changes).toEqual([{ id: 'T-1', before: start[0], after: more[0] }])
+    expect(applyCommand(more, second.undo[0], 'undo')).toEqual(start)
+  })
+
+  it('keeps commands apart once the window has passed or the key differs', () => {
+    const first = pushCommand(emptyHistory, command('Edit note', start, typed, 1000, 'text:T-1'))
+    expect(pushCommand(first, command('Edit note', typed, more, 2500, 'text:T-1')).undo).toHaveLength(2)
+    expect(pushCommand(first, command('Edit note', typed, more, 1200, 'text:T-2')).undo).toHaveLength(2)
+    expect(pushCommand(first, command('Edit note', typed, more, 1200)).undo).toHaveLength(2)
+  })
+
+  it('clears the redo stack', () => {
+    const history = { undo: [], redo: [command('Edit note', start, typed, 1000)] }
+    expect(pushCommand(history, command('Edit note', typed, more, 2000)).redo).toEqual([])
+  })
+
+  it(`keeps only the last ${HISTORY_LIMIT} steps`, () => {
+    let history = emptyHistory
+    for (let i = 0; i <= HISTORY_LIMIT; i += 1) {
+      history = pushCommand(history, command(`Step ${i}`, start, typed, i * 10_000))
+    }
+    expect(history.undo).toHaveLength(HISTORY_LIMIT)
+    expect(history.undo[0].label).toBe('Step 1')
+    expect(history.undo[HISTORY_LIMIT - 1].label).toBe(`Step ${HISTORY_LIMIT}`)
+  })
+})
+
+describe('applyCommand', () => {
+  it('undoes and redoes edits, additions, deletions and reordering', () => {
+    const before = [note('T-1', 'a'), note('T-2', 'b'), note('T-3', 'c')]
+    const after = [note('T-4', 'd'), ...withText(before, 'T-2', 'B').filter((b) => b.id !== 'T-3').reverse()]
+    const step = command('Several changes', before, after, 1000)
+
+    const undone = applyCommand(after, step, 'undo')
+    expect(undone).toEqual(before)
+    expect(applyCommand(undone, step, 'redo')).toEqual(after)
+  })
+
+  it('leaves blocks the command did not touch in place', () => {
+    const before = [note('T-1', 'a'), note('T-2', 'b')]
+    const step = command('Edit', before, withText(before, 'T-1', 'A'), 1000)
+    const later = [...withText(before, 'T-1', 'A'), note('T-9', 'added elsewhere')]
+    expect(applyCommand(later, step, 'undo')).toEqual([...before, later[2]])
+  })
+})
@@ -0,0 +1,101 @@
+import type { Block } from '../models/canvas'
+
+export const HISTORY_LIMIT = 100
+const MERGE_WINDOW_MS = 1500
+
+/** Whole-block before/after snapshot; `null` means the block did not exist on that side. */
+export type BlockChange = {
+  id: string
+  before: Block | null
+  after: Block | null
+}
+
+export type HistoryCommand = {
+  label: string
+  changes: BlockChange[]
+  /** Render order, only stored when the command changed it (adds, deletes, reorders). */
+  orderBefore?: string[]
+  orderAfter?: string[]
+  at: number
+  /** Consecutive commands with the same key (e.g. typing in one block) collapse into one step. */
+  mergeKey?: string
+}
+
+export type HistoryState = {
+  undo: HistoryCommand[]
+  redo: HistoryCommand[]
+}
+
+export const emptyHistory: HistoryState = { undo: [], redo: [] }
+
+const sameOrder = (a: string[], b: string[]) => a.length === b.length && a.every((id, idx) => id === b[idx])
+
+export function createCommand(label: string, prev: Block[], next: Block[], mergeKey?: string): HistoryCommand | null {
+  const prevById = new Map(prev.map((b) => [b.id, b]))
+  const nextById = new Map(next.map((b) => [b.id, b]))
+  const changes: BlockChange[] = []
+  prev.forEach((b) => {
+    const after = nextById.get(b.id) ?? null
+    if (after !== b) changes.push({ id: b.id, before: b, after })
+  })
+  next.forEach((b) => {
+    if (!prevById.has(b.id)) changes.push({ id: b.id, before: null, after: b })
+  })
+  const orderBefore = prev.map((b) => b.id)
+  const orderAfter = next.map((b) => b.id)
+  const orderChanged = !sameOrder(orderBefore, orderAfter)
+  if (!changes.length && !orderChanged) return null
+  return {
+    label,
+    changes,
+    ...(orderChanged ? { orderBefore, orderAfter } : {}),
+    at: Date.now(),
+    mergeKey,
+  }
+}
+
+function mergeCommands(older: HistoryCommand, newer: HistoryCommand): HistoryCommand {
+  const changes = new Map(older.changes.map((c) => [c.id, c]))
+  newer.changes.forEach((c) => {
+    const existing = changes.get(c.id)
+    changes.set(c.id, existing ? { id: c.id, before: existing.before, after: c.after } : c)
+  })
+  return {
+    ...newer,
+    changes: Array.from(changes.values()),
+    orderBefore: older.orderBefore ?? newer.orderBefore,
+    orderAfter: newer.orderAfter ?? older.orderAfter,
+  }
+}
+
+/** Adds a command, merging it into the previous one when both share a merge key within a short window. */
+export function pushCommand(history: HistoryState, command: HistoryCommand): HistoryState {
+  const last = history.undo[history.undo.length - 1]
+  if (last && command.mergeKey && last.mergeKey === command.mergeKey && command.at - last.at < MERGE_WINDOW_MS) {
+    return { undo: [...history.undo.slice(0, -1), mergeCommands(last, command)], redo: [] }
+  }
+  return { undo: [...history.undo, command].slice(-HISTORY_LIMIT), redo: [] }
+}
+
+export function applyCommand(blocks: Block[], command: HistoryCommand, direction: 'undo' | 'redo'): Block[] {
+  const byId = new Map(blocks.map((b) => [b.id, b]))
+  command.changes.forEach((change) => {
+    const target = direction === 'undo' ? change.before : change.after
+    if (target) byId.set(change.id, target)
+    else byId.delete(change.id)
+  })
+  const order = direction === 'undo' ? command.orderBefore : command.orderAfter
+  if (order) {
+    const ordered = order.flatMap((id) => {
+      const block = byId.get(id)
+      if (!block) return []
+      byId.delete(id)
+      return [block]
+    })
+    return [...ordered, ...byId.values()]
+  }
+  return blocks.flatMap((b) => {
+    const block = byId.get(b.id)
+    return block ? [block] : []
+  })
+}
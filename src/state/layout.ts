@@ -0,0 +1,125 @@
+export type LayoutRect = { id: string; x: number; y: number; width: number; height: number }
+
+/** A line to draw while snapping: vertical guides have a fixed x, horizontal ones a fixed y. */
+export type SnapGuide = { axis: 'x' | 'y'; position: number; start: number; end: number }
+
+export type AlignMode = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom'
+
+export const SNAP_GRID = 20
+
+type Position = { x: number; y: number }
+
+const edges = (start: number, size: number) => [start, start + size / 2, start + size]
+
+/**
+ * Moves `rect` so one of its edges or its centre lines up with a nearby edge or centre of another
+ * rect, independently per axis. Axes with nothing within `threshold` fall back to the grid when one is given.
+ */
+export function snapRect(
+  rect: LayoutRect,
+  others: LayoutRect[],
+  threshold: number,
+  grid?: number
+): Position & { guides: SnapGuide[] } {
+  const guides: SnapGuide[] = []
+  const snapAxis = (axis: 'x' | 'y') => {
+    const start = axis === 'x' ? rect.x : rect.y
+    const size = axis === 'x' ? rect.width : rect.height
+    let best: { delta: number; line: number; other: LayoutRect } | null = null
+    for (const other of others) {
+      const otherLines = edges(axis === 'x' ? other.x : other.y, axis === 'x' ? other.width : other.height)
+      for (const line of edges(start, size)) {
+        for (const target of otherLines) {
+          const delta = target - line
+          if (Math.abs(delta) <= threshold && (!best || Math.abs(delta) < Math.abs(best.delta))) {
+            best = { delta, line: target, other }
+          }
+        }
+      }
+    }
+    if (best) {
+      // The guide spans both rects along the other axis.
+      const cross =
+        axis === 'x'
+          ? [rect.y, rect.y + rect.height, best.other.y, best.other.y + best.other.height]
+          : [rect.x, rect.x + rect.width, best.other.x, best.other.x + best.other.width]
+      guides.push({ axis, position: best.line, start: Math.min(...cross), end: Math.max(...cross) })
+      return start + best.delta
+    }
+    return grid ? Math.round(start / grid) * grid : start
+  }
+  return { x: snapAxis('x'), y: snapAxis('y'), guides }
+}
+
+export function alignRects(rects: LayoutRect[], mode: AlignMode): Map<string, Position> {
+  const minX = Math.min(...rects.map((r) => r.x))
+  const maxX = Math.max(...rects.map((r) => r.x + r.width))
+  const minY = Math.min(...rects.map((r) => r.y))
+  const maxY = Math.max(...rects.map((r) => r.y + r.height))
+  return new Map(
+    rects.map((r) => {
+      switch (mode) {
+        case 'left':
+          return [r.id, { x: minX, y: r.y }]
+        case 'center':
+          return [r.id, { x: (minX + maxX) / 2 - r.width / 2, y: r.y }]
+        case 'right':
+          return [r.id, { x: maxX - r.width, y: r.y }]
+        case 'top':
+          return [r.id, { x: r.x, y: minY }]
+        case 'middle':
+          return [r.id, { x: r.x, y: (minY + maxY) / 2 - r.height / 2 }]
+        case 'bottom':
+          return [r.id, { x: r.x, y: maxY - r.height }]
+      }
+    })
+  )
+}
+
+/** Equal gaps between neighbours along the axis; the outermost two stay where they are. */
+export function distributeRects(rects: LayoutRect[], axis: 'x' | 'y'): Map<string, Position> {
+  const start = (r: LayoutRect) => (axis === 'x' ? r.x : r.y)
+  const size = (r: LayoutRect) => (axis === 'x' ? r.width : r.height)
+  const sorted = [...rects].sort((a, b) => start(a) - start(b))
+  const first = sorted[0]
+  const span = Math.max(...sorted.map((r) => start(r) + size(r))) - start(first)
+  const gap = (span - sorted.reduce((sum, r) => sum + size(r), 0)) / Math.max(1, sorted.length - 1)
+  let cursor = start(first)
+  return new Map(
+    sorted.map((r) => {
+      const position = axis === 'x' ? { x: cursor, y: r.y } : { x: r.x, y: cursor }
+      cursor += size(r) + gap
+      return [r.id, position]
+    })
+  )
+}
+
+/**
+ * Packs the rects into rows in reading order, starting at their current top-left corner. Rows wrap at
+ * roughly the width of a square of the same total area, so the result never overlaps and stays compact.
+ */
+export function tidyRects(rects: LayoutRect[], gap = 24): Map<string, Position> {
+  const originX = Math.min(...rects.map((r) => r.x))
+  const originY = Math.min(...rects.map((r) => r.y))
+  const area = rects.reduce((sum, r) => sum + (r.width + gap) * (r.height + gap), 0)
+  const rowLimit = Math.max(Math.sqrt(area) * 1.2, ...rects.map((r) => r.width))
+  const rowTolerance = Math.min(...rects.map((r) => r.height)) / 2
+  const ordered = [...rects].sort(
+    (a, b) => Math.floor((a.y - originY) / rowTolerance) - Math.floor((b.y - originY) / rowTolerance) || a.x - b.x
+  )
+  const positions = new Map<string, Position>()
+  let x = originX
+  let y = originY
+  let rowHeight = 0
+  ordered.forEach((r) => {
+    if (x > originX && x - originX + r.width > rowLimit) {
+      x = originX
+      y += rowHeight + gap
+      rowHeight = 0
+    }
+    positions.set(r.id, { x, y })
+    x += r.width + gap
+    rowHeight = Math.max(rowHeight, r.height)
+  })
+  return positions
+}
@@ -0,0 +1,55 @@
+import type { LinkBlock, LinkPreview } from '../models/canvas'
+
+const PREVIEW_TEXT_HEIGHT = 200
+const PREVIEW_IMAGE_HEIGHT = 330
+
+const optionalString = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined)
+
+/** Keeps the string fields of a preview; null when nothing usable is left. */
+export function toLinkPreview(value: unknown, fetchedAt = new Date().toISOString()): LinkPreview | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null
+  const raw = value as Record<string, unknown>
+  const image = optionalString(raw.image)
+  const preview: LinkPreview = {
+    title: optionalString(raw.title),
+    description: optionalString(raw.description),
+    image: image && /^https?:\/\//i.test(image) ? image : undefined,
+    siteName: optionalString(raw.siteName),
+    fetchedAt: typeof raw.fetchedAt === 'string' && !Number.isNaN(Date.parse(raw.fetchedAt)) ? raw.fetchedAt : fetchedAt,
+  }
+  return preview.title || preview.description || preview.image ? preview : null
+}
+
+export type LinkPreviewResult = { ok: true; preview: LinkPreview } | { ok: false; error: string }
+
+/** Asks the local server to unfurl the page. On failure the block keeps its typed label; `error` says why. */
+export async function fetchLinkPreview(url: string): Promise<LinkPreviewResult> {
+  try {
+    const response = await fetch('/api/unfurl', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ url }),
+    })
+    const data: unknown = await response.json().catch(() => null)
+    if (!response.ok) {
+      const reason = (data as { error?: unknown } | null)?.error
+      console.warn('Link preview unavailable', url, response.status, reason)
+      return { ok: false, error: typeof reason === 'string' && reason ? reason : `The server responded with ${response.status}` }
+    }
+    const preview = toLinkPreview(data)
+    return preview ? { ok: true, preview } : { ok: false, error: 'The page has no preview to show' }
+  } catch (err) {
+    console.warn('Link preview unavailable', url, err)
+    return { ok: false, error: 'Link previews need the local server' }
+  }
+}
+
+/** The card's headline: the typed label, unless nothing was typed beyond the URL itself. */
+export const linkTitle = (block: LinkBlock) =>
+  block.label === block.url && block.preview?.title ? block.preview.title : block.label
+
+export const linkCardHeight = (preview: LinkPreview) => (preview.image ? PREVIEW_IMAGE_HEIGHT : PREVIEW_TEXT_HEIGHT)
+
+/** The page's own description, marked as such so summaries never pass it off as the author's words. */
+export const pageDescriptionEvidence = (block: LinkBlock) =>
+  block.preview?.description ? `from the linked page: “${block.preview.description}”` : ''
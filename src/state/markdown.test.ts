@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest'
+import { inlineToPlain, markdownSegments, parseInline, parseMarkdown, toggleTask } from './markdown'
+
+describe('parseMarkdown', () => {
+  it('reads ATX and underlined headings', () => {
+    expect(parseMarkdown('# Venue #\nIntro\n\nRisks\n---\n### Notes')).toEqual([
+      { kind: 'heading', level: 1, text: 'Venue' },
+      { kind: 'paragraph', lines: ['Intro'] },
+      { kind: 'heading', level: 2, text: 'Risks' },
+      { kind: 'heading', level: 3, text: 'Notes' },
+    ])
+  })
+
+  it('keeps nesting depth and source lines of list items', () => {
+    expect(parseMarkdown('- Venue\n  - Mirrors\n    - Safety\n- Budget')).toEqual([
+      {
+        kind: 'list',
+        ordered: false,
+        items: [
+          { text: 'Venue', checked: null, depth: 0, line: 0 },
+          { text: 'Mirrors', checked: null, depth: 1, line: 1 },
+          { text: 'Safety', checked: null, depth: 2, line: 2 },
+          { text: 'Budget', checked: null, depth: 0, line: 3 },
+        ],
+      },
+    ])
+  })
+
+  it('reads task boxes and starts a new list when numbering starts', () => {
+    expect(parseMarkdown('- [ ] Book venue\n- [x] Send invites\n1. First\n2) Second')).toEqual([
+      {
+        kind: 'list',
+        ordered: false,
+        items: [
+          { text: 'Book venue', checked: false, depth: 0, line: 0 },
+          { text: 'Send invites', checked: true, depth: 0, line: 1 },
+        ],
+      },
+      {
+        kind: 'list',
+        ordered: true,
+        items: [
+          { text: 'First', checked: null, depth: 0, line: 2 },
+          { text: 'Second', checked: null, depth: 0, line: 3 },
+        ],
+      },
+    ])
+  })
+
+  it('keeps fenced code as is and recognises rules', () => {
+    expect(parseMarkdown('```\n# not a heading\n- nor a list\n```\n***')).toEqual([
+      { kind: 'code', text: '# not a heading\n- nor a list' },
+      { kind: 'rule' },
+    ])
+  })
+})
+
+describe('parseInline', () => {
+  it('reads code, emphasis and links', () => {
+    expect(parseInline('Use `npm test`, **not** *that*: [docs](https://example.com/a) or https://example.com/b.')).toEqual([
+      { kind: 'text', text: 'Use ' },
+      { kind: 'code', text: 'npm test' },
+      { kind: 'text', text: ', ' },
+      { kind: 'strong', text: 'not' },
+      { kind: 'text', text: ' ' },
+      { kind: 'em', text: 'that' },
+      { kind: 'text', text: ': ' },
+      { kind: 'link', text: 'docs', url: 'https://example.com/a' },
+      { kind: 'text', text: ' or ' },
+      { kind: 'link', text: 'https://example.com/b', url: 'https://example.com/b' },
+      { kind: 'text', text: '.' },
+    ])
+  })
+
+  it('leaves markup inside code alone and ignores non-web links', () => {
+    expect(parseInline('`**raw**` [x](javascript:alert(1))')).toEqual([
+      { kind: 'code', text: '**raw**' },
+      { kind: 'text', text: ' [x](javascript:alert(1))' },
+    ])
+  })
+
+  it('strips markup for plain text', () => {
+    expect(inlineToPlain('**Risk**: see [notes](https://example.com)')).toBe('Risk: see notes')
+  })
+})
+
+describe('toggleTask', () => {
+  const source = '- [ ] Book venue\n  - [x] Send invites\n- Plain item'
+
+  it('flips only the box on the given line', () => {
+    expect(toggleTask(source, 0)).toBe('- [x] Book venue\n  - [x] Send invites\n- Plain item')
+    expect(toggleTask(source, 1)).toBe('- [ ] Book venue\n  - [ ] Send invites\n- Plain item')
+  })
+
+  it('leaves lines without a box and missing lines untouched', () => {
+    expect(toggleTask(source, 2)).toBe(source)
+    expect(toggleTask(source, 9)).toBe(source)
+  })
+})
+
+describe('markdownSegments', () => {
+  it('splits paragraphs into sentences and keeps list items and headings whole', () => {
+    expect(markdownSegments('## Plan\nWe meet Monday. Then we decide!\n- [x] Book **venue**\n- Check `budget`')).toEqual([
+      { text: 'Plan', claim: false },
+      { text: 'We meet Monday.', claim: true },
+      { text: 'Then we decide!', claim: true },
+      { text: 'Book venue', claim: true, checked: true },
+      { text: 'Check budget', claim: true },
+    ])
+  })
+})
@@ -0,0 +1,182 @@
+/**
+ * The small Markdown subset text blocks render: ATX and underlined headings, bullet, numbered and
+ * task lists, fenced code, rules, and inline bold, italics, code and http(s) links. Single line breaks
+ * inside a paragraph are kept, since most notes are typed rather than authored as Markdown.
+ */
+
+export type MarkdownInline =
+  | { kind: 'text'; text: string }
+  | { kind: 'strong'; text: string }
+  | { kind: 'em'; text: string }
+  | { kind: 'code'; text: string }
+  | { kind: 'link'; text: string; url: string }
+
+export type MarkdownListItem = {
+  text: string
+  /** null for plain bullets; otherwise the state of a `[ ]` / `[x]` task box. */
+  checked: boolean | null
+  depth: number
+  /** Source line, so a task box can be toggled in place. */
+  line: number
+}
+
+export type MarkdownNode =
+  | { kind: 'heading'; level: number; text: string }
+  | { kind: 'paragraph'; lines: string[] }
+  | { kind: 'list'; ordered: boolean; items: MarkdownListItem[] }
+  | { kind: 'code'; text: string }
+  | { kind: 'rule' }
+
+const ATX_HEADING = /^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/
+const SETEXT_UNDERLINE = /^\s{0,3}(=+|-+)\s*$/
+const RULE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/
+const FENCE = /^\s{0,3}(```|~~~)/
+// Typed notes often use en dashes or bullet characters instead of `-`.
+const LIST_ITEM = /^(\s*)([-*+•–]|\d{1,9}[.)])\s+(?:\[( |x|X)\]\s+)?(.*)$/
+const INLINE =
+  /(`[^`]+`)|\*\*([^*]+)\*\*|__([^_]+)__|\*([^*\s][^*]*)\*|\b_([^_\s][^_]*)_\b|\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)|(https?:\/\/[^\s<>()]+[^\s<>().,;:!?'"])/g
+
+export function parseMarkdown(source: string): MarkdownNode[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const nodes: MarkdownNode[] = []
+  let paragraph: string[] = []
+  let list: Extract<MarkdownNode, { kind: 'list' }> | null = null
+
+  const flush = () => {
+    if (paragraph.length) nodes.push({ kind: 'paragraph', lines: paragraph })
+    if (list) nodes.push(list)
+    paragraph = []
+    list = null
+  }
+
+  for (let idx = 0; idx < lines.length; idx += 1) {
+    const line = lines[idx]
+    if (!line.trim()) {
+      flush()
+      continue
+    }
+    if (FENCE.test(line)) {
+      flush()
+      const fence = line.trim().slice(0, 3)
+      const body: string[] = []
+      idx += 1
+      while (idx < lines.length && !lines[idx].trim().startsWith(fence)) {
+        body.push(lines[idx])
+        idx += 1
+      }
+      nodes.push({ kind: 'code', text: body.join('\n') })
+      continue
+    }
+    const heading = ATX_HEADING.exec(line)
+    if (heading) {
+      flush()
+      nodes.push({ kind: 'heading', level: heading[1].length, text: heading[2] })
+      continue
+    }
+    const underline = SETEXT_UNDERLINE.exec(line)
+    if (underline && paragraph.length === 1 && !list) {
+      nodes.push({ kind: 'heading', level: underline[1].startsWith('=') ? 1 : 2, text: paragraph[0].trim() })
+      paragraph = []
+      continue
+    }
+    if (RULE.test(line)) {
+      flush()
+      nodes.push({ kind: 'rule' })
+      continue
+    }
+    const item = LIST_ITEM.exec(line)
+    if (item) {
+      const ordered = /\d/.test(item[2])
+      if (paragraph.length || (list && list.ordered !== ordered)) flush()
+      if (!list) list = { kind: 'list', ordered, items: [] }
+      list.items.push({
+        text: item[4],
+        checked: item[3] === undefined ? null : item[3] !== ' ',
+        depth: Math.floor(item[1].replace(/\t/g, '  ').length / 2),
+        line: idx,
+      })
+      continue
+    }
+    if (list) {
+      // An indented line continues the previous item; anything else starts a paragraph.
+      const last = list.items[list.items.length - 1]
+      if (/^\s+/.test(line)) {
+        last.text = `${last.text} ${line.trim()}`
+        continue
+      }
+      flush()
+    }
+    paragraph.push(line.trim())
+  }
+  flush()
+  return nodes
+}
+
+export function parseInline(text: string): MarkdownInline[] {
+  const parts: MarkdownInline[] = []
+  let last = 0
+  for (const match of text.matchAll(INLINE)) {
+    const at = match.index ?? 0
+    if (at > last) parts.push({ kind: 'text', text: text.slice(last, at) })
+    const [whole, code, strong, strongAlt, em, emAlt, label, url, bare] = match
+    if (code) parts.push({ kind: 'code', text: code.slice(1, -1) })
+    else if (strong ?? strongAlt) parts.push({ kind: 'strong', text: strong ?? strongAlt })
+    else if (em ?? emAlt) parts.push({ kind: 'em', text: em ?? emAlt })
+    else if (label) parts.push({ kind: 'link', text: label, url })
+    else if (bare) parts.push({ kind: 'link', text: bare, url: bare })
+    else parts.push({ kind: 'text', text: whole })
+    last = at + whole.length
+  }
+  if (last < text.length) parts.push({ kind: 'text', text: text.slice(last) })
+  return parts
+}
+
+/** Inline markup removed, e.g. `**Risk**: see [notes](https://…)` → `Risk: see notes`. */
+export const inlineToPlain = (text: string) =>
+  parseInline(text)
+    .map((part) => part.text)
+    .join('')
+
+/** Flips the `[ ]` / `[x]` box on the given source line; other lines are left untouched. */
+export function toggleTask(source: string, line: number): string {
+  const lines = source.split('\n')
+  const target = lines[line]
+  if (target === undefined) return source
+  lines[line] = target.replace(/^(\s*(?:[-*+•–]|\d{1,9}[.)])\s+)\[( |x|X)\]/, (_, prefix: string, mark: string) =>
+    `${prefix}[${mark === ' ' ? 'x' : ' '}]`
+  )
+  return lines.join('\n')
+}
+
+export type MarkdownSegment = {
+  text: string
+  claim: boolean
+  /** Task list items only: whether the box is ticked. */
+  checked?: boolean
+}
+
+/**
+ * The note as plain-text pieces in reading order: one per list item, heading or code block, and one
+ * per sentence of a paragraph. Headings are marked `claim: false` since they only label what follows.
+ */
+export function markdownSegments(source: string): MarkdownSegment[] {
+  const plain = (text: string) => inlineToPlain(text).replace(/\s+/g, ' ').trim()
+  return parseMarkdown(source).flatMap((node): MarkdownSegment[] => {
+    switch (node.kind) {
+      case 'heading':
+        return [{ text: plain(node.text), claim: false }]
+      case 'paragraph':
+        return plain(node.lines.join(' '))
+          .split(/(?<=[.!?])\s+/)
+          .map((text) => ({ text, claim: true }))
+      case 'list':
+        return node.items.map((item) =>
+          item.checked === null ? { text: plain(item.text), claim: true } : { text: plain(item.text), claim: true, checked: item.checked }
+        )
+      case 'code':
+        return [{ text: node.text.replace(/\s+/g, ' ').trim(), claim: true }]
+      case 'rule':
+        return []
+    }
+  }).filter((segment) => segment.text)
+}
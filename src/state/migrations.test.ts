@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { migrateState, SCHEMA_VERSION } from './migrations'
+
+const note = { id: 'T-1', type: 'text', text: 'Kickoff', createdAt: '2024-05-01T10:00:00.000Z' }
+const ref = { id: 'SREF-1', type: 'summary_ref', summaryId: 'SUM-1', createdAt: 1714557600000, updatedAt: '2024-05-02T08:30:00Z' }
+
+describe('migrateState', () => {
+  it('treats a bare block array as version 0 and upgrades it to the current schema', () => {
+    const result = migrateState([note])
+    expect(result).toEqual({ ok: true, fromVersion: 0, failures: [], state: { schemaVersion: SCHEMA_VERSION, blocks: [note] } })
+  })
+
+  it('treats a payload without a version as version 0', () => {
+    expect(migrateState({ blocks: [note] })).toMatchObject({ ok: true, fromVersion: 0 })
+  })
+
+  it('turns summary_ref timestamps into ISO strings and leaves other blocks alone', () => {
+    const result = migrateState({ schemaVersion: 1, blocks: [note, ref] })
+    if (!result.ok) throw new Error(result.failures.join(' '))
+    expect(result.state.blocks).toEqual([
+      note,
+      { ...ref, createdAt: '2024-05-01T10:00:00.000Z', updatedAt: '2024-05-02T08:30:00.000Z' },
+    ])
+  })
+
+  it('falls back to createdAt when updatedAt cannot be read', () => {
+    const result = migrateState({ schemaVersion: 1, blocks: [{ ...ref, updatedAt: 'yesterday' }] })
+    if (!result.ok) throw new Error(result.failures.join(' '))
+    expect(result.state.blocks[0]).toMatchObject({ createdAt: '2024-05-01T10:00:00.000Z', updatedAt: '2024-05-01T10:00:00.000Z' })
+  })
+
+  it('drops entries that are not blocks and says so', () => {
+    const result = migrateState([note, 'stray', null])
+    expect(result).toMatchObject({
+      ok: true,
+      failures: ['Block #2 is not an object and was removed.', 'Block #3 is not an object and was removed.'],
+    })
+    if (result.ok) expect(result.state.blocks).toEqual([note])
+  })
+
+  it('leaves current payloads unchanged', () => {
+    const state = { schemaVersion: SCHEMA_VERSION, blocks: [note, ref] }
+    expect(migrateState(state)).toEqual({ ok: true, fromVersion: SCHEMA_VERSION, failures: [], state })
+  })
+
+  it('refuses payloads from a newer app', () => {
+    expect(migrateState({ schemaVersion: SCHEMA_VERSION + 1, blocks: [] })).toEqual({
+      ok: false,
+      fromVersion: SCHEMA_VERSION + 1,
+      failures: [`Saved canvas uses schema v${SCHEMA_VERSION + 1}, which is newer than this app (v${SCHEMA_VERSION}).`],
+    })
+  })
+
+  it('refuses versions it has no migration for', () => {
+    expect(migrateState({ schemaVersion: -1, blocks: [] })).toEqual({
+      ok: false,
+      fromVersion: -1,
+      failures: ['No migration from schema v-1.'],
+    })
+  })
+
+  it('refuses data that is not a canvas payload', () => {
+    expect(migrateState('blocks')).toEqual({ ok: false, fromVersion: null, failures: ['Saved canvas data is not in a recognised format.'] })
+    expect(migrateState({ schemaVersion: 2 })).toMatchObject({ ok: false, fromVersion: null })
+  })
+})
@@ -0,0 +1,97 @@
+export const SCHEMA_VERSION = 2
+
+type RawBlock = Record<string, unknown>
+
+export type MigratableState = {
+  schemaVersion: number
+  blocks: unknown[]
+}
+
+type Migration = {
+  from: number
+  description: string
+  migrate: (state: MigratableState, failures: string[]) => MigratableState
+}
+
+const toIsoString = (value: unknown): string | null => {
+  if (typeof value === 'number' && Number.isFinite(value)) return new Date(value).toISOString()
+  if (typeof value === 'string') {
+    const time = Date.parse(value)
+    return Number.isNaN(time) ? null : new Date(time).toISOString()
+  }
+  return null
+}
+
+const isRawBlock = (value: unknown): value is RawBlock => Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+
+// Each step upgrades a payload from `from` to `from + 1`. Steps never throw for a
+// single bad block; they drop it and push a human-readable reason to `failures`.
+const MIGRATIONS: Migration[] = [
+  {
+    from: 0,
+    description: 'Wrap a bare block array in a versioned payload',
+    migrate: (state) => ({ schemaVersion: 1, blocks: state.blocks }),
+  },
+  {
+    from: 1,
+    description: 'Store summary_ref timestamps as ISO strings like every other block',
+    migrate: (state, failures) => {
+      const fallback = new Date().toISOString()
+      const blocks = state.blocks.flatMap((block, idx) => {
+        if (!isRawBlock(block)) {
+          failures.push(`Block #${idx + 1} is not an object and was removed.`)
+          return []
+        }
+        if (block.type !== 'summary_ref') return [block]
+        const createdAt = toIsoString(block.createdAt) ?? fallback
+        const updatedAt = toIsoString(block.updatedAt) ?? createdAt
+        return [{ ...block, createdAt, updatedAt }]
+      })
+      return { schemaVersion: 2, blocks }
+    },
+  },
+]
+
+export type MigrationResult =
+  | { ok: true; state: MigratableState; fromVersion: number; failures: string[] }
+  | { ok: false; fromVersion: number | null; failures: string[] }
+
+/**
+ * Upgrades a parsed persisted payload to SCHEMA_VERSION one step at a time.
+ * Older payloads without a version (a plain block array) are treated as version 0.
+ */
+export function migrateState(parsed: unknown): MigrationResult {
+  let state: MigratableState
+  if (Array.isArray(parsed)) {
+    state = { schemaVersion: 0, blocks: parsed }
+  } else if (isRawBlock(parsed) && Array.isArray(parsed.blocks)) {
+    const version = typeof parsed.schemaVersion === 'number' ? parsed.schemaVersion : 0
+    state = { schemaVersion: version, blocks: parsed.blocks }
+  } else {
+    return { ok: false, fromVersion: null, failures: ['Saved canvas data is not in a recognised format.'] }
+  }
+
+  const fromVersion = state.schemaVersion
+  if (fromVersion > SCHEMA_VERSION) {
+    return {
+      ok: false,
+      fromVersion,
+      failures: [`Saved canvas uses schema v${fromVersion}, which is newer than this app (v${SCHEMA_VERSION}).`],
+    }
+  }
+
+  const failures: string[] = []
+  while (state.schemaVersion < SCHEMA_VERSION) {
+    const step = MIGRATIONS.find((m) => m.from === state.schemaVersion)
+    if (!step) {
+      return { ok: false, fromVersion, failures: [...failures, `No migration from schema v${state.schemaVersion}.`] }
+    }
+    try {
+      state = step.migrate(state, failures)
+    } catch (err) {
+      console.warn(`Migration from v${step.from} failed (${step.description})`, err)
+      return { ok: false, fromVersion, failures: [...failures, `Upgrade from schema v${step.from} failed.`] }
+    }
+  }
+  return { ok: true, state, fromVersion, failures }
+}
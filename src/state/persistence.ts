@@ -1,47 +1,474 @@
-import type { Block } from '../models/canvas'
+import type { Block, SummaryBlock } from '../models/canvas'
+import { createId } from '../models/canvas'
+import { migrateState, SCHEMA_VERSION } from './migrations'
+import { describeValidationIssues, validateBlocks } from './validation'
+import {
+  copyStoredCanvas,
+  deleteStoredCanvas,
+  estimateStorage,
+  isIndexedDbAvailable,
+  readCanvas,
+  writeCanvasChanges,
+} from './blockStore'
+import type { StorageEstimate } from './blockStore'
+import { emptyHistory, HISTORY_LIMIT } from './history'
+import type { HistoryState } from './history'
+import { isNewerBlock } from './sync'
 
 export const STORAGE_KEY = 'recap-canvas:v1'
 export const ZOOM_KEY = 'recap-canvas:zoom'
-const SCHEMA_VERSION = 1
+export const PANEL_CANVAS_KEY = 'recap-canvas:panel-canvas-summary'
+export const PANEL_SELECTION_KEY = 'recap-canvas:panel-selection-summary'
+export const CANVAS_INDEX_KEY = 'recap-canvas:canvases'
+export const BACKUP_KEY = 'recap-canvas:backup'
+export const HISTORY_KEY = 'recap-canvas:history'
+export const SUMMARIES_KEY = 'recap-canvas:summaries'
+const DEFAULT_CANVAS_NAME = 'Borderless Light Workshop (Handover)'
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024
+
+// Every per-canvas entry is stored under `${baseKey}:${canvasId}`.
+const CANVAS_SCOPED_KEYS = [STORAGE_KEY, ZOOM_KEY, PANEL_CANVAS_KEY, PANEL_SELECTION_KEY, BACKUP_KEY, SUMMARIES_KEY]
 
 type PersistedState = {
   schemaVersion: number
   blocks: Block[]
 }
 
-export function loadState(): Block[] | null {
-  if (typeof window === 'undefined') return null
+export type CanvasMeta = {
+  id: string
+  name: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type CanvasIndex = {
+  activeId: string
+  canvases: CanvasMeta[]
+}
+
+export type PanelSummaryKind = 'canvas' | 'selection'
+
+export type LoadResult = {
+  blocks: Block[] | null
+  /** User-facing messages about upgrades or data that could not be recovered. */
+  notices: string[]
+}
+
+type PersistedBackup = {
+  fromVersion: number | null
+  savedAt: string
+  raw: string
+}
+
+const scopedKey = (baseKey: string, canvasId: string) => `${baseKey}:${canvasId}`
+
+const createCanvasMeta = (name: string): CanvasMeta => {
+  const now = new Date().toISOString()
+  return { id: createId('CNV'), name, createdAt: now, updatedAt: now }
+}
+
+/**
+ * Reads the list of canvases. On first run the index is created and any data
+ * saved under the old single-canvas keys is moved into the first canvas.
+ */
+export function loadCanvasIndex(): CanvasIndex {
+  if (typeof window === 'undefined') {
+    const meta = createCanvasMeta(DEFAULT_CANVAS_NAME)
+    return { activeId: meta.id, canvases: [meta] }
+  }
   try {
-    const raw = window.localStorage.getItem(STORAGE_KEY)
-    if (!raw) return null
-    const parsed = JSON.parse(raw) as Partial<PersistedState>
-    if (!parsed || parsed.schemaVersion !== SCHEMA_VERSION || !Array.isArray(parsed.blocks)) {
-      return null
+    const raw = window.localStorage.getItem(CANVAS_INDEX_KEY)
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<CanvasIndex>
+      if (parsed && Array.isArray(parsed.canvases) && parsed.canvases.length > 0) {
+        const canvases = parsed.canvases.filter((c) => c && typeof c.id === 'string')
+        const activeId = canvases.some((c) => c.id === parsed.activeId) ? (parsed.activeId as string) : canvases[0].id
+        if (canvases.length) return { activeId, canvases }
+      }
     }
-    return parsed.blocks as Block[]
   } catch (err) {
-    console.warn('Failed to load canvas state', err)
-    return null
+    console.warn('Failed to load canvas index', err)
+  }
+
+  const meta = createCanvasMeta(DEFAULT_CANVAS_NAME)
+  const index: CanvasIndex = { activeId: meta.id, canvases: [meta] }
+  try {
+    CANVAS_SCOPED_KEYS.forEach((baseKey) => {
+      const legacy = window.localStorage.getItem(baseKey)
+      if (legacy === null) return
+      window.localStorage.setItem(scopedKey(baseKey, meta.id), legacy)
+      window.localStorage.removeItem(baseKey)
+    })
+  } catch (err) {
+    console.warn('Failed to migrate single-canvas state', err)
+  }
+  saveCanvasIndex(index)
+  return index
+}
+
+export function saveCanvasIndex(index: CanvasIndex) {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(CANVAS_INDEX_KEY, JSON.stringify(index))
+  } catch (err) {
+    console.warn('Failed to save canvas index', err)
+  }
+}
+
+/** Registers a new, empty canvas. Its blocks are stored as `[]` so it does not fall back to the seed. */
+export async function createCanvas(index: CanvasIndex, name: string): Promise<CanvasIndex> {
+  const meta = createCanvasMeta(name)
+  await saveState(meta.id, [])
+  return { activeId: meta.id, canvases: [...index.canvases, meta] }
+}
+
+export async function duplicateCanvas(index: CanvasIndex, sourceId: string): Promise<CanvasIndex> {
+  const source = index.canvases.find((c) => c.id === sourceId)
+  if (!source) return index
+  const meta = createCanvasMeta(`${source.name} (copy)`)
+  if (typeof window !== 'undefined') {
+    try {
+      CANVAS_SCOPED_KEYS.forEach((baseKey) => {
+        const raw = window.localStorage.getItem(scopedKey(baseKey, sourceId))
+        if (raw !== null) window.localStorage.setItem(scopedKey(baseKey, meta.id), raw)
+      })
+      if (usesIndexedDb()) await copyStoredCanvas(sourceId, meta.id)
+    } catch (err) {
+      console.warn('Failed to duplicate canvas', err)
+    }
+  }
+  const position = index.canvases.findIndex((c) => c.id === sourceId)
+  const canvases = [...index.canvases]
+  canvases.splice(position + 1, 0, meta)
+  return { activeId: meta.id, canvases }
+}
+
+export function renameCanvas(index: CanvasIndex, canvasId: string, name: string): CanvasIndex {
+  return {
+    ...index,
+    canvases: index.canvases.map((c) =>
+      c.id === canvasId ? { ...c, name, updatedAt: new Date().toISOString() } : c
+    ),
   }
 }
 
-export function saveState(blocks: Block[]) {
+/**
+ * Removes a canvas and its data. The last remaining canvas cannot be deleted. Rejects, leaving the
+ * index as it was, when the stored data could not be removed.
+ */
+export async function deleteCanvas(index: CanvasIndex, canvasId: string): Promise<CanvasIndex> {
+  if (index.canvases.length <= 1) return index
+  // A debounced save from the canvas being closed would otherwise write its blocks back after the clear.
+  await cancelStateSavers(canvasId)
+  await removeCanvasData(canvasId)
+  const position = index.canvases.findIndex((c) => c.id === canvasId)
+  const canvases = index.canvases.filter((c) => c.id !== canvasId)
+  const activeId =
+    index.activeId === canvasId ? canvases[Math.max(0, Math.min(position, canvases.length - 1))].id : index.activeId
+  return { activeId, canvases }
+}
+
+async function removeCanvasData(canvasId: string) {
   if (typeof window === 'undefined') return
+  lastSaved.delete(canvasId)
+  CANVAS_SCOPED_KEYS.forEach((baseKey) => window.localStorage.removeItem(scopedKey(baseKey, canvasId)))
+  window.sessionStorage.removeItem(scopedKey(HISTORY_KEY, canvasId))
+  if (usesIndexedDb()) await deleteStoredCanvas(canvasId)
+}
+
+export async function clearCanvasData(canvasId: string) {
+  try {
+    await removeCanvasData(canvasId)
+  } catch (err) {
+    console.warn('Failed to clear canvas data', err)
+  }
+}
+
+/** Keeps the raw payload as it was before an upgrade so nothing is lost if migration goes wrong. */
+function backupRawState(canvasId: string, raw: string, fromVersion: number | null) {
+  const backup: PersistedBackup = { fromVersion, savedAt: new Date().toISOString(), raw }
+  try {
+    window.localStorage.setItem(scopedKey(BACKUP_KEY, canvasId), JSON.stringify(backup))
+  } catch (err) {
+    console.warn('Failed to back up canvas state', err)
+  }
+}
+
+function withValidatedBlocks(raw: unknown[], notices: string[]): LoadResult {
+  const { blocks, issues } = validateBlocks(raw)
+  const description = describeValidationIssues(issues)
+  if (!description) return { blocks, notices }
+  console.warn('Canvas data check', issues)
+  return { blocks, notices: [...notices, description] }
+}
+
+/** Upgrades and validates a parsed payload, whichever backend it came from. */
+function resolvePayload(canvasId: string, parsed: unknown, raw: string): LoadResult {
+  const current = parsed as Partial<PersistedState> | null
+  if (!Array.isArray(parsed) && current?.schemaVersion === SCHEMA_VERSION && Array.isArray(current.blocks)) {
+    return withValidatedBlocks(current.blocks, [])
+  }
+
+  const result = migrateState(parsed)
+  backupRawState(canvasId, raw, result.fromVersion)
+  if (!result.ok) {
+    return {
+      blocks: null,
+      notices: [...result.failures, 'The original data was backed up; starting from the default canvas.'],
+    }
+  }
+  const notices = result.failures.length
+    ? [`Upgraded saved canvas from schema v${result.fromVersion}.`, ...result.failures]
+    : []
+  return withValidatedBlocks(result.state.blocks, notices)
+}
+
+function loadFromLocalStorage(canvasId: string): LoadResult {
+  let raw: string | null = null
+  try {
+    raw = window.localStorage.getItem(scopedKey(STORAGE_KEY, canvasId))
+    if (!raw) return { blocks: null, notices: [] }
+    return resolvePayload(canvasId, JSON.parse(raw), raw)
+  } catch (err) {
+    console.warn('Failed to load canvas state', err)
+    if (raw) backupRawState(canvasId, raw, null)
+    return { blocks: null, notices: ['Saved canvas could not be read. The original data was backed up.'] }
+  }
+}
+
+// Snapshot of what is known to be on disk per canvas, used to write only changed blocks.
+const lastSaved = new Map<string, Map<string, Block>>()
+// Canvases loaded from the old localStorage payload; that key is removed after the first IndexedDB save.
+const pendingLegacyCleanup = new Set<string>()
+let indexedDbFailed = false
+
+const usesIndexedDb = () => isIndexedDbAvailable() && !indexedDbFailed
+
+export async function loadState(canvasId: string): Promise<LoadResult> {
+  if (typeof window === 'undefined') return { blocks: null, notices: [] }
+  if (usesIndexedDb()) {
+    try {
+      const stored = await readCanvas(canvasId)
+      if (stored) {
+        const result = resolvePayload(canvasId, stored, JSON.stringify(stored))
+        if (result.blocks && stored.schemaVersion === SCHEMA_VERSION) {
+          lastSaved.set(canvasId, new Map(result.blocks.map((b) => [b.id, b])))
+        }
+        return result
+      }
+      const legacy = loadFromLocalStorage(canvasId)
+      if (legacy.blocks) pendingLegacyCleanup.add(canvasId)
+      return legacy
+    } catch (err) {
+      console.warn('IndexedDB unavailable, falling back to localStorage', err)
+      indexedDbFailed = true
+      const fallback = loadLocalStorageState(canvasId)
+      return { ...fallback, notices: ['Browser database unavailable; saving to limited local storage.', ...fallback.notices] }
+    }
+  }
+  return loadLocalStorageState(canvasId)
+}
+
+function loadLocalStorageState(canvasId: string): LoadResult {
+  const result = loadFromLocalStorage(canvasId)
+  if (result.blocks) lastSaved.set(canvasId, new Map(result.blocks.map((b) => [b.id, b])))
+  return result
+}
+
+export type SaveResult =
+  | {
+      ok: true
+      upserts: Block[]
+      deletes: Block[]
+      /** Versions another tab saved more recently than ours; they were kept instead of being overwritten. */
+      conflicts: Block[]
+    }
+  | { ok: false; message: string; quotaExceeded: boolean }
+
+const toSaveFailure = (err: unknown): SaveResult => {
+  const quotaExceeded = err instanceof DOMException && (err.name === 'QuotaExceededError' || err.code === 22)
+  return {
+    ok: false,
+    quotaExceeded,
+    message: quotaExceeded
+      ? 'Storage is full — recent changes are not saved. Remove large images or free up browser storage.'
+      : 'Saving failed — recent changes may be lost if you close this tab.',
+  }
+}
+
+/** localStorage counterpart of the guarded IndexedDB write; the payload is rewritten as a whole. */
+function writeLocalStorageChanges(canvasId: string, blocks: Block[], upserts: Block[], deletes: Block[]): Block[] {
+  const key = scopedKey(STORAGE_KEY, canvasId)
+  let stored: Block[] = []
+  try {
+    const current = JSON.parse(window.localStorage.getItem(key) ?? 'null') as Partial<PersistedState> | null
+    if (current?.schemaVersion === SCHEMA_VERSION && Array.isArray(current.blocks)) stored = current.blocks
+  } catch {
+    stored = []
+  }
+  const storedById = new Map(stored.map((b) => [b.id, b]))
+  const kept = [...upserts, ...deletes].flatMap((b) => {
+    const current = storedById.get(b.id)
+    return current && isNewerBlock(current, b) ? [current] : []
+  })
+  const keptById = new Map(kept.map((b) => [b.id, b]))
+  const known = new Set([...blocks, ...deletes].map((b) => b.id))
   const payload: PersistedState = {
     schemaVersion: SCHEMA_VERSION,
-    blocks,
+    blocks: [
+      ...blocks.map((b) => keptById.get(b.id) ?? b),
+      ...deletes.flatMap((b) => (keptById.has(b.id) ? [keptById.get(b.id) as Block] : [])),
+      ...stored.filter((b) => !known.has(b.id)),
+    ],
   }
+  window.localStorage.setItem(key, JSON.stringify(payload))
+  return kept
+}
+
+export async function saveState(canvasId: string, blocks: Block[]): Promise<SaveResult> {
+  if (typeof window === 'undefined') return { ok: true, upserts: [], deletes: [], conflicts: [] }
+  const previous = lastSaved.get(canvasId)
+  const upserts = previous ? blocks.filter((b) => previous.get(b.id) !== b) : blocks
+  const nextIds = new Set(blocks.map((b) => b.id))
+  const deletes = previous ? [...previous.values()].filter((b) => !nextIds.has(b.id)) : []
   try {
-    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payload))
+    let conflicts: Block[]
+    if (usesIndexedDb()) {
+      conflicts = await writeCanvasChanges(
+        canvasId,
+        SCHEMA_VERSION,
+        blocks.map((b) => b.id),
+        upserts,
+        deletes,
+        !previous
+      )
+      if (pendingLegacyCleanup.delete(canvasId)) {
+        window.localStorage.removeItem(scopedKey(STORAGE_KEY, canvasId))
+      }
+    } else {
+      conflicts = previous ? writeLocalStorageChanges(canvasId, blocks, upserts, deletes) : []
+      if (!previous) {
+        const payload: PersistedState = { schemaVersion: SCHEMA_VERSION, blocks }
+        window.localStorage.setItem(scopedKey(STORAGE_KEY, canvasId), JSON.stringify(payload))
+      }
+    }
+    const saved = new Map(blocks.map((b) => [b.id, b]))
+    conflicts.forEach((b) => saved.set(b.id, b))
+    lastSaved.set(canvasId, saved)
+    const conflictIds = new Set(conflicts.map((b) => b.id))
+    return {
+      ok: true,
+      upserts: upserts.filter((b) => !conflictIds.has(b.id)),
+      deletes: deletes.filter((b) => !conflictIds.has(b.id)),
+      conflicts,
+    }
   } catch (err) {
     console.warn('Failed to save canvas state', err)
+    return toSaveFailure(err)
   }
 }
 
-export function loadZoom(): number | null {
+/** Records blocks taken over from another tab as already saved, so they are not written back. */
+export function acknowledgeRemoteChanges(canvasId: string, applied: Block[], removedIds: string[]) {
+  const saved = lastSaved.get(canvasId)
+  if (!saved) return
+  applied.forEach((b) => saved.set(b.id, b))
+  removedIds.forEach((id) => saved.delete(id))
+}
+
+export type StateSaver = {
+  schedule: (blocks: Block[]) => void
+  flush: () => Promise<void>
+  /** Flushes, then forgets the saver; call when the canvas unmounts. */
+  close: () => Promise<void>
+}
+
+type SaverHandle = { cancel: () => Promise<void> }
+
+const openSavers = new Map<string, Set<SaverHandle>>()
+
+/** Drops pending saves for the canvas and stops its savers; resolves once any write already under way is done. */
+export async function cancelStateSavers(canvasId: string) {
+  const savers = [...(openSavers.get(canvasId) ?? [])]
+  openSavers.delete(canvasId)
+  await Promise.all(savers.map((saver) => saver.cancel()))
+}
+
+/**
+ * Debounces saves for one canvas and runs them strictly one after another, so a
+ * burst of edits (e.g. a drag) becomes a single incremental write.
+ */
+export function createStateSaver(
+  canvasId: string,
+  onResult: (result: SaveResult) => void,
+  delay = 400
+): StateSaver {
+  let pending: Block[] | null = null
+  let timer: number | null = null
+  let chain: Promise<void> = Promise.resolve()
+  let cancelled = false
+
+  const flush = () => {
+    if (timer !== null) {
+      window.clearTimeout(timer)
+      timer = null
+    }
+    const blocks = pending
+    pending = null
+    if (blocks && !cancelled) {
+      chain = chain.then(async () => onResult(await saveState(canvasId, blocks)))
+    }
+    return chain
+  }
+
+  const handle: SaverHandle = {
+    cancel: () => {
+      cancelled = true
+      pending = null
+      if (timer !== null) window.clearTimeout(timer)
+      timer = null
+      return chain
+    },
+  }
+
+  return {
+    schedule: (blocks) => {
+      if (cancelled) return
+      // Registered on every schedule, so a saver that was closed and reused (React remounts) is found again.
+      openSavers.set(canvasId, (openSavers.get(canvasId) ?? new Set()).add(handle))
+      pending = blocks
+      if (timer !== null) window.clearTimeout(timer)
+      timer = window.setTimeout(() => void flush(), delay)
+    },
+    flush,
+    close: () => {
+      openSavers.get(canvasId)?.delete(handle)
+      return flush()
+    },
+  }
+}
+
+/** Usage of the active backend. localStorage has no estimate API, so its size is approximated. */
+export async function getStorageUsage(): Promise<StorageEstimate | null> {
   if (typeof window === 'undefined') return null
+  if (usesIndexedDb()) return estimateStorage()
   try {
-    const raw = window.localStorage.getItem(ZOOM_KEY)
+    let chars = 0
+    for (let i = 0; i < window.localStorage.length; i += 1) {
+      const key = window.localStorage.key(i) ?? ''
+      chars += key.length + (window.localStorage.getItem(key)?.length ?? 0)
+    }
+    return { usage: chars * 2, quota: LOCAL_STORAGE_QUOTA }
+  } catch (err) {
+    console.warn('Failed to measure local storage', err)
+    return null
+  }
+}
+
+export function loadZoom(canvasId: string): number | null {
+  if (typeof window === 'undefined') return null
+  try {
+    const raw = window.localStorage.getItem(scopedKey(ZOOM_KEY, canvasId))
     if (!raw) return null
     const num = Number(raw)
     if (Number.isFinite(num)) return num
@@ -51,11 +478,99 @@ export function loadZoom(): number | null {
   return null
 }
 
-export function saveZoom(zoom: number) {
+export function saveZoom(canvasId: string, zoom: number) {
   if (typeof window === 'undefined') return
   try {
-    window.localStorage.setItem(ZOOM_KEY, String(zoom))
+    window.localStorage.setItem(scopedKey(ZOOM_KEY, canvasId), String(zoom))
   } catch (err) {
     console.warn('Failed to save zoom', err)
   }
 }
+
+/** Returns the parsed panel summary for a canvas; callers validate the shape. */
+export function loadPanelSummary(canvasId: string, kind: PanelSummaryKind): unknown {
+  if (typeof window === 'undefined') return null
+  const baseKey = kind === 'canvas' ? PANEL_CANVAS_KEY : PANEL_SELECTION_KEY
+  try {
+    const raw = window.localStorage.getItem(scopedKey(baseKey, canvasId))
+    return raw ? JSON.parse(raw) : null
+  } catch (err) {
+    console.warn(`Failed to load ${kind} summary`, err)
+    return null
+  }
+}
+
+export function savePanelSummary(canvasId: string, kind: PanelSummaryKind, summary: unknown) {
+  if (typeof window === 'undefined') return
+  const key = scopedKey(kind === 'canvas' ? PANEL_CANVAS_KEY : PANEL_SELECTION_KEY, canvasId)
+  try {
+    if (summary === null) {
+      window.localStorage.removeItem(key)
+      return
+    }
+    window.localStorage.setItem(key, JSON.stringify(summary))
+  } catch (err) {
+    console.warn(`Failed to persist ${kind} summary`, err)
+  }
+}
+
+export type SummaryStore = Record<string, SummaryBlock>
+
+/** Selection summaries by id, so summary_ref blocks can reopen them after newer summaries are generated. */
+export function loadSummaries(canvasId: string, knownIds: Iterable<string>): SummaryStore {
+  if (typeof window === 'undefined') return {}
+  try {
+    const raw = window.localStorage.getItem(scopedKey(SUMMARIES_KEY, canvasId))
+    if (!raw) return {}
+    const parsed = JSON.parse(raw) as unknown
+    const entries = parsed && typeof parsed === 'object' ? Object.values(parsed) : []
+    const { blocks, issues } = validateBlocks(entries, { knownIds })
+    if (issues.length) console.warn('Summary store check', issues)
+    return Object.fromEntries(
+      blocks.filter((b): b is SummaryBlock => b.type === 'summary').map((summary) => [summary.id, summary])
+    )
+  } catch (err) {
+    console.warn('Failed to load summaries', err)
+    return {}
+  }
+}
+
+export function saveSummaries(canvasId: string, summaries: SummaryStore) {
+  if (typeof window === 'undefined') return
+  try {
+    window.localStorage.setItem(scopedKey(SUMMARIES_KEY, canvasId), JSON.stringify(summaries))
+  } catch (err) {
+    console.warn('Failed to save summaries', err)
+  }
+}
+
+/** Undo history lives in sessionStorage: it survives reloads but not a new browser session. */
+export function loadHistory(canvasId: string): HistoryState {
+  if (typeof window === 'undefined') return emptyHistory
+  try {
+    const raw = window.sessionStorage.getItem(scopedKey(HISTORY_KEY, canvasId))
+    if (!raw) return emptyHistory
+    const parsed = JSON.parse(raw) as Partial<HistoryState>
+    if (!Array.isArray(parsed?.undo) || !Array.isArray(parsed?.redo)) return emptyHistory
+    return { undo: parsed.undo, redo: parsed.redo }
+  } catch (err) {
+    console.warn('Failed to load undo history', err)
+    return emptyHistory
+  }
+}
+
+export function saveHistory(canvasId: string, history: HistoryState) {
+  if (typeof window === 'undefined') return
+  const key = scopedKey(HISTORY_KEY, canvasId)
+  try {
+    window.sessionStorage.setItem(key, JSON.stringify(history))
+  } catch (err) {
+    // Large pasted images can exceed the session quota; keep only the most recent steps.
+    try {
+      const recent = Math.floor(HISTORY_LIMIT / 10)
+      window.sessionStorage.setItem(key, JSON.stringify({ undo: history.undo.slice(-recent), redo: history.redo.slice(-recent) }))
+    } catch {
+      console.warn('Failed to save undo history', err)
+    }
+  }
+}
@@ -0,0 +1,113 @@
+import type { Block } from '../models/canvas'
+import { describeChecklistItem } from './checklists'
+
+export type SearchField =
+  | 'text'
+  | 'label'
+  | 'url'
+  | 'caption'
+  | 'alt'
+  | 'title'
+  | 'summary'
+  | 'decision'
+  | 'rationale'
+  | 'owner'
+  | 'alternatives'
+  | 'items'
+  | 'page'
+
+/** One block that matched, with the first matching field cut down to a snippet around the match. */
+export type SearchResult = {
+  blockId: string
+  field: SearchField
+  before: string
+  match: string
+  after: string
+  /** Matches across all of the block's fields. */
+  count: number
+}
+
+const SNIPPET_CONTEXT = 40
+
+/** The text a block can be found by, in the order its fields are tried for the snippet. */
+export function searchableFields(block: Block): Array<{ field: SearchField; text: string }> {
+  switch (block.type) {
+    case 'text':
+      return [{ field: 'text', text: block.text }]
+    case 'link':
+      return [
+        { field: 'label', text: block.label },
+        { field: 'url', text: block.url },
+        { field: 'page', text: [block.preview?.title, block.preview?.description].filter(Boolean).join('\n') },
+      ]
+    case 'image':
+      return [
+        { field: 'caption', text: block.caption ?? '' },
+        { field: 'alt', text: block.alt ?? '' },
+      ]
+    case 'summary':
+      return [
+        { field: 'title', text: block.title },
+        { field: 'summary', text: block.summaryText },
+      ]
+    case 'summary_ref':
+      return [
+        { field: 'title', text: block.title },
+        { field: 'summary', text: block.summaryText ?? block.preview },
+      ]
+    case 'frame':
+      return [{ field: 'title', text: block.title }]
+    case 'connector':
+      return []
+    case 'decision':
+      return [
+        { field: 'decision', text: block.decision },
+        { field: 'rationale', text: block.rationale },
+        { field: 'owner', text: block.owner },
+        { field: 'alternatives', text: block.alternatives.join('\n') },
+      ]
+    case 'checklist':
+      return [
+        { field: 'title', text: block.title },
+        { field: 'items', text: block.items.map(describeChecklistItem).join('\n') },
+      ]
+  }
+}
+
+const countOccurrences = (haystack: string, needle: string) => {
+  let count = 0
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + needle.length)) count += 1
+  return count
+}
+
+/**
+ * Case-insensitive substring search over the blocks, kept in the order given. Whitespace in both the
+ * query and the text is collapsed so matches can run across line breaks.
+ */
+export function searchBlocks(blocks: Block[], query: string): SearchResult[] {
+  const needle = query.replace(/\s+/g, ' ').trim().toLowerCase()
+  if (!needle) return []
+  return blocks.flatMap((block) => {
+    let first: SearchResult | null = null
+    let count = 0
+    for (const { field, text } of searchableFields(block)) {
+      const flat = text.replace(/\s+/g, ' ')
+      const lower = flat.toLowerCase()
+      const at = lower.indexOf(needle)
+      if (at === -1) continue
+      count += countOccurrences(lower, needle)
+      if (first) continue
+      const start = Math.max(0, at - SNIPPET_CONTEXT)
+      const end = Math.min(flat.length, at + needle.length + SNIPPET_CONTEXT)
+      first = {
+        blockId: block.id,
+        field,
+        before: `${start > 0 ? '…' : ''}${flat.slice(start, at)}`,
+        match: flat.slice(at, at + needle.length),
+        after: `${flat.slice(at + needle.length, end)}${end < flat.length ? '…' : ''}`,
+        count: 0,
+      }
+    }
+    return first ? [{ ...first, count }] : []
+  })
+}
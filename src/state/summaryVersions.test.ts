@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import type { Block, SummaryBlock, TextBlock } from '../models/canvas'
+import { changedSources, contentVersion, diffLines } from './summaryVersions'
+
+const at = '2024-05-01T10:00:00.000Z'
+
+const note: TextBlock = { id: 'T-1', type: 'text', text: 'Pricing is unclear.', x: 0, y: 0, width: 300, createdAt: at, updatedAt: at }
+
+const summaryOf = (sourceVersions: Record<string, string>): SummaryBlock => ({
+  id: 'SUM-1',
+  type: 'summary',
+  title: 'Pricing',
+  evidenceBlockIds: Object.keys(sourceVersions),
+  summaryText: '• Pricing is unclear [1]',
+  citations: [],
+  spans: [],
+  scope: { kind: 'selection', blockIds: Object.keys(sourceVersions) },
+  qa: [],
+  provenance: { provider: 'mock', sourceVersions },
+  x: 0,
+  y: 0,
+  width: 360,
+  createdAt: at,
+  updatedAt: at,
+})
+
+describe('diffLines', () => {
+  it('marks every line the same for identical input', () => {
+    expect(diffLines('a\nb', 'a\nb')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'same', text: 'b' },
+    ])
+  })
+
+  it('finds inserted lines', () => {
+    expect(diffLines('a\nc', 'a\nb\nc')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'added', text: 'b' },
+      { kind: 'same', text: 'c' },
+    ])
+  })
+
+  it('finds deleted lines', () => {
+    expect(diffLines('a\nb\nc', 'a\nc')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'removed', text: 'b' },
+      { kind: 'same', text: 'c' },
+    ])
+  })
+
+  it('shows a changed line as removed, then added', () => {
+    expect(diffLines('a\nb\nc', 'a\nB\nc')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'removed', text: 'b' },
+      { kind: 'added', text: 'B' },
+      { kind: 'same', text: 'c' },
+    ])
+  })
+
+  it('handles lines added or removed at the end', () => {
+    expect(diffLines('a', 'a\nb')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'added', text: 'b' },
+    ])
+    expect(diffLines('a\nb', 'a')).toEqual([
+      { kind: 'same', text: 'a' },
+      { kind: 'removed', text: 'b' },
+    ])
+  })
+})
+
+describe('contentVersion', () => {
+  it('ignores position, size, timestamps and key order', () => {
+    const moved = { ...note, x: 500, y: 80, width: 420, height: 200, updatedAt: '2024-06-01T00:00:00.000Z' }
+    const reordered = Object.fromEntries(Object.entries(note).reverse()) as TextBlock
+    expect(contentVersion(moved)).toBe(contentVersion(note))
+    expect(contentVersion(reordered)).toBe(contentVersion(note))
+  })
+
+  it('ignores fields that are undefined', () => {
+    expect(contentVersion({ ...note, tags: undefined })).toBe(contentVersion(note))
+  })
+
+  it('changes with the content', () => {
+    expect(contentVersion({ ...note, text: 'Pricing is settled.' })).not.toBe(contentVersion(note))
+    expect(contentVersion({ ...note, tags: [{ tag: 'question' }] })).not.toBe(contentVersion(note))
+  })
+})
+
+describe('changedSources', () => {
+  const lookup = (...blocks: Block[]) => new Map(blocks.map((b) => [b.id, b]))
+
+  it('lists sources that were edited or removed, not ones that were moved', () => {
+    const other: TextBlock = { ...note, id: 'T-2', text: 'Onboarding is slow.' }
+    const gone: TextBlock = { ...note, id: 'T-3', text: 'Removed later.' }
+    const summary = summaryOf({ 'T-1': contentVersion(note), 'T-2': contentVersion(other), 'T-3': contentVersion(gone) })
+    const now = lookup({ ...note, x: 900 }, { ...other, text: 'Onboarding is fast.' })
+    expect(changedSources(summary, now)).toEqual(['T-2', 'T-3'])
+  })
+
+  it('compares updatedAt for summaries saved before content versions', () => {
+    const summary = summaryOf({ 'T-1': at })
+    expect(changedSources(summary, lookup(note))).toEqual([])
+    expect(changedSources(summary, lookup({ ...note, updatedAt: '2024-06-01T00:00:00.000Z' }))).toEqual(['T-1'])
+  })
+
+  it('is empty without provenance', () => {
+    expect(changedSources({ ...summaryOf({}), provenance: undefined }, lookup(note))).toEqual([])
+  })
+})
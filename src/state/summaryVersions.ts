@@ -0,0 +1,110 @@
+import type { Block, SummaryBlock } from '../models/canvas'
+import type { SummaryStore } from './persistence'
+
+/** Older generations beyond this are dropped per scope, unless a summary block on the canvas still points at them. */
+export const SUMMARY_VERSION_LIMIT = 10
+
+export type DiffLine = { kind: 'same' | 'added' | 'removed'; text: string }
+
+const scopeKey = (blockIds: string[]) => [...blockIds].sort().join('|')
+
+/** Every stored selection summary generated for the same set of blocks, newest first. */
+export function summaryVersions(store: SummaryStore, scopeBlockIds: string[]): SummaryBlock[] {
+  const key = scopeKey(scopeBlockIds)
+  return Object.values(store)
+    .filter((s) => s.scope.kind === 'selection' && scopeKey(s.scope.blockIds) === key)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+}
+
+export function pruneSummaryVersions(store: SummaryStore, scopeBlockIds: string[], keepIds: Set<string>): SummaryStore {
+  const stale = summaryVersions(store, scopeBlockIds)
+    .slice(SUMMARY_VERSION_LIMIT)
+    .filter((s) => !keepIds.has(s.id))
+  if (!stale.length) return store
+  const next = { ...store }
+  stale.forEach((s) => delete next[s.id])
+  return next
+}
+
+// Where a block sits, how big it is and what it is called say nothing about what a summary read from it.
+const NON_CONTENT_FIELDS = new Set(['id', 'x', 'y', 'width', 'height', 'aspectRatio', 'createdAt', 'updatedAt'])
+const CONTENT_VERSION_PREFIX = 'c:'
+
+/** JSON with object keys sorted, so a block rebuilt on load (e.g. by validation) hashes the same. */
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(',')}}`
+  }
+  return JSON.stringify(value) ?? 'null'
+}
+
+const contentVersions = new WeakMap<Block, string>()
+
+/**
+ * A short hash of a block's content: everything but its id, position, size and timestamps. Moving,
+ * aligning, tidying or snapping a block leaves it unchanged. Blocks are immutable, so it is cached.
+ */
+export function contentVersion(block: Block): string {
+  const cached = contentVersions.get(block)
+  if (cached) return cached
+  const content = Object.fromEntries(Object.entries(block).filter(([key]) => !NON_CONTENT_FIELDS.has(key)))
+  const text = stableStringify(content)
+  // 32-bit FNV-1a; collisions only risk a missed "changed" hint.
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i += 1) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  const version = `${CONTENT_VERSION_PREFIX}${(hash >>> 0).toString(16).padStart(8, '0')}`
+  contentVersions.set(block, version)
+  return version
+}
+
+/** Scoped blocks whose content was edited, or that were removed, since the summary was generated. */
+export function changedSources(summary: SummaryBlock, lookup: Map<string, Block>): string[] {
+  const versions = summary.provenance?.sourceVersions
+  if (!versions) return []
+  return Object.entries(versions)
+    .filter(([id, version]) => {
+      const block = lookup.get(id)
+      if (!block) return true
+      // Summaries saved before content versions recorded the block's `updatedAt` instead.
+      return version.startsWith(CONTENT_VERSION_PREFIX) ? contentVersion(block) !== version : block.updatedAt !== version
+    })
+    .map(([id]) => id)
+}
+
+/** Line-level diff via longest common subsequence; summaries are short enough for the O(n·m) table. */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n')
+  const b = after.split('\n')
+  const table = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i -= 1) {
+    for (let j = b.length - 1; j >= 0; j -= 1) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1])
+    }
+  }
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: 'same', text: a[i] })
+      i += 1
+      j += 1
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      lines.push({ kind: 'removed', text: a[i] })
+      i += 1
+    } else {
+      lines.push({ kind: 'added', text: b[j] })
+      j += 1
+    }
+  }
+  a.slice(i).forEach((text) => lines.push({ kind: 'removed', text }))
+  b.slice(j).forEach((text) => lines.push({ kind: 'added', text }))
+  return lines
+}
@@ -0,0 +1,116 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { Block, TextBlock } from '../models/canvas'
+import { isNewerBlock, mergeRemoteChanges, stampChangedBlocks } from './sync'
+import type { SyncMessage } from './sync'
+
+const earlier = '2024-05-01T10:00:00.000Z'
+const later = '2024-05-01T10:05:00.000Z'
+
+const note = (id: string, text: string, updatedAt = earlier): TextBlock => ({
+  id,
+  type: 'text',
+  text,
+  x: 0,
+  y: 0,
+  width: 300,
+  createdAt: earlier,
+  updatedAt,
+})
+
+const message = (changes: Partial<SyncMessage>): SyncMessage => ({
+  canvasId: 'CNV-1',
+  tabId: 'TAB-other',
+  order: [],
+  upserts: [],
+  deletes: [],
+  ...changes,
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('isNewerBlock', () => {
+  it('compares updatedAt and counts a missing one as oldest', () => {
+    expect(isNewerBlock({ updatedAt: later }, { updatedAt: earlier })).toBe(true)
+    expect(isNewerBlock({ updatedAt: earlier }, { updatedAt: earlier })).toBe(false)
+    expect(isNewerBlock({ updatedAt: earlier }, {})).toBe(true)
+    expect(isNewerBlock({}, { updatedAt: earlier })).toBe(false)
+  })
+})
+
+describe('stampChangedBlocks', () => {
+  it('stamps only the blocks that changed', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date(later))
+    const prev = [note('T-1', 'a'), note('T-2', 'b')]
+    const next = [prev[0], { ...prev[1], text: 'B' }, note('T-3', 'c')]
+    const stamped = stampChangedBlocks(prev, next)
+    expect(stamped[0]).toBe(prev[0])
+    expect(stamped.slice(1).map((b) => b.updatedAt)).toEqual([later, later])
+  })
+
+  it('returns the same list when nothing changed', () => {
+    const prev = [note('T-1', 'a')]
+    const next = [...prev]
+    expect(stampChangedBlocks(prev, next)).toBe(next)
+  })
+})
+
+describe('mergeRemoteChanges', () => {
+  it('takes a remote version that is newer than the local one', () => {
+    const local: Block[] = [note('T-1', 'local'), note('T-2', 'other')]
+    const remote = note('T-1', 'remote', later)
+    const result = mergeRemoteChanges(local, message({ order: ['T-1', 'T-2'], upserts: [remote] }))
+    expect(result.blocks).toEqual([remote, local[1]])
+    expect(result.applied).toEqual([remote])
+    expect(result.removedIds).toEqual([])
+  })
+
+  it('keeps a local edit that is newer than the remote one', () => {
+    const local: Block[] = [note('T-1', 'local', later)]
+    const result = mergeRemoteChanges(local, message({ order: ['T-1'], upserts: [note('T-1', 'remote')] }))
+    expect(result.blocks).toBe(local)
+    expect(result.applied).toEqual([])
+  })
+
+  it('adds blocks only the other tab has, in its order', () => {
+    const local: Block[] = [note('T-1', 'a')]
+    const added = note('T-2', 'b', later)
+    const result = mergeRemoteChanges(local, message({ order: ['T-2', 'T-1'], upserts: [added] }))
+    expect(result.blocks.map((b) => b.id)).toEqual(['T-2', 'T-1'])
+  })
+
+  it('applies a remote delete of a block that was not edited here since', () => {
+    const local: Block[] = [note('T-1', 'a'), note('T-2', 'b')]
+    const result = mergeRemoteChanges(local, message({ order: ['T-2'], deletes: [{ id: 'T-1', updatedAt: earlier }] }))
+    expect(result.blocks).toEqual([local[1]])
+    expect(result.removedIds).toEqual(['T-1'])
+  })
+
+  it('ignores a remote delete of a block edited here after the sender saw it', () => {
+    const local: Block[] = [note('T-1', 'edited', later)]
+    const result = mergeRemoteChanges(local, message({ deletes: [{ id: 'T-1', updatedAt: earlier }] }))
+    expect(result.blocks).toBe(local)
+    expect(result.removedIds).toEqual([])
+  })
+
+  it('reports only the changes it applied', () => {
+    const local: Block[] = [note('T-1', 'a'), note('T-2', 'kept', later), note('T-3', 'c'), note('T-4', 'edited', later)]
+    const newer = note('T-1', 'A', later)
+    const result = mergeRemoteChanges(
+      local,
+      message({
+        order: ['T-1', 'T-2'],
+        upserts: [newer, note('T-2', 'stale')],
+        deletes: [
+          { id: 'T-3', updatedAt: earlier },
+          { id: 'T-4', updatedAt: earlier },
+        ],
+      })
+    )
+    expect(result.applied).toEqual([newer])
+    expect(result.removedIds).toEqual(['T-3'])
+    expect(result.blocks.map((b) => b.id)).toEqual(['T-1', 'T-2', 'T-4'])
+  })
+})
@@ -0,0 +1,127 @@
+import type { Block } from '../models/canvas'
+import { createId } from '../models/canvas'
+import { validateBlocks } from './validation'
+
+const CHANNEL_NAME = 'recap-canvas:sync'
+// Fallback transport for browsers without BroadcastChannel: writes trigger `storage` events in other tabs.
+const STORAGE_SYNC_KEY = 'recap-canvas:sync'
+
+/** What one tab just saved for a canvas. Deletes carry the last version the sender saw. */
+export type SyncMessage = {
+  canvasId: string
+  tabId: string
+  order: string[]
+  upserts: Block[]
+  deletes: Array<{ id: string; updatedAt: string }>
+}
+
+export type CanvasSync = {
+  publish: (message: Omit<SyncMessage, 'canvasId' | 'tabId'>) => void
+  subscribe: (listener: (message: SyncMessage) => void) => () => void
+  close: () => void
+}
+
+/** ISO timestamps compare lexicographically; blocks without one count as oldest. */
+export const isNewerBlock = (candidate: { updatedAt?: string }, than: { updatedAt?: string }) =>
+  (candidate.updatedAt ?? '') > (than.updatedAt ?? '')
+
+/** Gives every block that differs from `prev` a fresh `updatedAt`, so other tabs can tell which edit is newer. */
+export function stampChangedBlocks(prev: Block[], next: Block[]): Block[] {
+  const prevById = new Map(prev.map((b) => [b.id, b]))
+  const now = new Date().toISOString()
+  let changed = false
+  const stamped = next.map((b) => {
+    if (prevById.get(b.id) === b) return b
+    changed = true
+    return { ...b, updatedAt: now }
+  })
+  return changed ? stamped : next
+}
+
+export function createCanvasSync(canvasId: string): CanvasSync {
+  const tabId = createId('TAB')
+  const listeners = new Set<(message: SyncMessage) => void>()
+  const deliver = (data: unknown) => {
+    const message = data as SyncMessage | null
+    if (!message || message.canvasId !== canvasId || message.tabId === tabId) return
+    listeners.forEach((listener) => listener(message))
+  }
+
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== STORAGE_SYNC_KEY || !event.newValue) return
+    try {
+      deliver(JSON.parse(event.newValue))
+    } catch (err) {
+      console.warn('Ignoring malformed sync message', err)
+    }
+  }
+  if (channel) channel.onmessage = (event) => deliver(event.data)
+  else if (typeof window !== 'undefined') window.addEventListener('storage', handleStorage)
+
+  return {
+    publish: (payload) => {
+      const message: SyncMessage = { canvasId, tabId, ...payload }
+      try {
+        if (channel) channel.postMessage(message)
+        else window.localStorage.setItem(STORAGE_SYNC_KEY, JSON.stringify({ ...message, sentAt: Date.now() }))
+      } catch (err) {
+        console.warn('Failed to notify other tabs', err)
+      }
+    },
+    subscribe: (listener) => {
+      listeners.add(listener)
+      return () => {
+        listeners.delete(listener)
+      }
+    },
+    close: () => {
+      listeners.clear()
+      if (channel) channel.close()
+      else if (typeof window !== 'undefined') window.removeEventListener('storage', handleStorage)
+    },
+  }
+}
+
+export type RemoteMerge = {
+  blocks: Block[]
+  /** Remote blocks that were taken over, and ids removed because the other tab deleted them. */
+  applied: Block[]
+  removedIds: string[]
+}
+
+/**
+ * Folds another tab's changes into the local blocks, block by block: a remote
+ * version only wins when its `updatedAt` is newer, and a remote delete only
+ * applies when the local block has not been edited since the sender saw it.
+ */
+export function mergeRemoteChanges(local: Block[], message: SyncMessage): RemoteMerge {
+  const localById = new Map(local.map((b) => [b.id, b]))
+  const knownIds = [...localById.keys(), ...message.order]
+  const { blocks: incoming, issues } = validateBlocks(message.upserts, { knownIds })
+  if (issues.length) console.warn('Sync data check', issues)
+
+  const applied = incoming.filter((b) => {
+    const current = localById.get(b.id)
+    return !current || isNewerBlock(b, current)
+  })
+  const removedIds = message.deletes
+    .filter((d) => {
+      const current = localById.get(d.id)
+      return current && !isNewerBlock(current, d)
+    })
+    .map((d) => d.id)
+  if (!applied.length && !removedIds.length) return { blocks: local, applied, removedIds }
+
+  const merged = new Map(localById)
+  applied.forEach((b) => merged.set(b.id, b))
+  removedIds.forEach((id) => merged.delete(id))
+  // Follow the sender's order for blocks it knows; blocks only this tab has keep their relative place at the end.
+  const ordered = message.order.flatMap((id) => {
+    const block = merged.get(id)
+    if (!block) return []
+    merged.delete(id)
+    return [block]
+  })
+  return { blocks: [...ordered, ...merged.values()], applied, removedIds }
+}
@@ -0,0 +1,77 @@
+import type { Block, BlockTag, SemanticTag } from '../models/canvas'
+import { SEMANTIC_TAGS } from '../models/canvas'
+import { checklistToText } from './checklists'
+import { describeDecision } from './decisions'
+
+const MAX_TAG_LENGTH = 40
+
+export const isSemanticTag = (tag: string): tag is SemanticTag => (SEMANTIC_TAGS as readonly string[]).includes(tag)
+
+/** Lower-case, single-spaced and capped; empty when nothing usable is left. */
+export const normalizeTagName = (name: string) => name.replace(/\s+/g, ' ').trim().toLowerCase().slice(0, MAX_TAG_LENGTH)
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+/** Adds the tag unless the same tag is already on the same passage (or on the whole block). */
+export function addTag(tags: BlockTag[] = [], next: BlockTag): BlockTag[] {
+  const quote = next.quote?.trim() || undefined
+  if (tags.some((t) => t.tag === next.tag && collapse(t.quote ?? '') === collapse(quote ?? ''))) return tags
+  return [...tags, quote ? { tag: next.tag, quote } : { tag: next.tag }]
+}
+
+export const hasManualTags = (block: Block) => Boolean(block.tags?.length)
+
+export const wholeBlockTags = (block: Block) => (block.tags ?? []).filter((t) => !t.quote).map((t) => t.tag)
+
+/**
+ * Passage tags grouped by quote. Passages that no longer appear in the block's text (it was edited
+ * since) are left out, so stale tags never reach a summary.
+ */
+export function passageTags(block: Block): Array<{ quote: string; tags: string[] }> {
+  if (block.type !== 'text') return []
+  const text = collapse(block.text).toLowerCase()
+  const grouped = new Map<string, string[]>()
+  for (const t of block.tags ?? []) {
+    if (!t.quote || !text.includes(collapse(t.quote).toLowerCase())) continue
+    grouped.set(t.quote, [...(grouped.get(t.quote) ?? []), t.tag])
+  }
+  return Array.from(grouped, ([quote, tags]) => ({ quote, tags }))
+}
+
+const blockContent = (block: Block) => {
+  switch (block.type) {
+    case 'text':
+      return block.text.trim()
+    case 'link':
+      return `${block.label} (${block.url})`
+    case 'summary':
+      return block.summaryText
+    case 'summary_ref':
+      return block.summaryText ?? block.preview
+    case 'frame':
+      return block.title
+    case 'image':
+      return block.caption ?? block.alt ?? ''
+    case 'decision':
+      return describeDecision(block)
+    case 'checklist':
+      return checklistToText(block)
+    case 'connector':
+      return ''
+  }
+}
+
+/** What a block contributes under `tag`: its whole content when tagged as a block, otherwise the tagged passages. */
+export function taggedContent(block: Block, tag: string): string[] {
+  if (wholeBlockTags(block).includes(tag)) {
+    const content = blockContent(block)
+    return content ? [content] : []
+  }
+  return passageTags(block)
+    .filter((p) => p.tags.includes(tag))
+    .map((p) => p.quote)
+}
+
+/** Custom (non-category) tag names used across the blocks, in first-seen order. */
+export const customTagsIn = (blocks: Block[]) =>
+  Array.from(new Set(blocks.flatMap((b) => (b.tags ?? []).map((t) => t.tag)).filter((tag) => !isSemanticTag(tag))))
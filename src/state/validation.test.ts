@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import type { SummaryBlock } from '../models/canvas'
+import { validateBlocks } from './validation'
+
+const at = '2024-05-01T10:00:00.000Z'
+
+const note = { id: 'T-1', type: 'text', text: 'Interviews point at onboarding.', x: 0, y: 0, width: 300, createdAt: at, updatedAt: at }
+
+const summary = (overrides: Record<string, unknown>) => ({
+  id: 'S-1',
+  type: 'summary',
+  title: 'Research',
+  summaryText: '• Onboarding [1]',
+  evidenceBlockIds: ['T-1'],
+  citations: [{ n: 1, blockIds: ['T-1'] }],
+  spans: [],
+  scope: { kind: 'selection', blockIds: ['T-1'] },
+  qa: [],
+  x: 400,
+  y: 0,
+  width: 360,
+  createdAt: at,
+  updatedAt: at,
+  ...overrides,
+})
+
+const validSummary = (overrides: Record<string, unknown>) => {
+  const { blocks, issues } = validateBlocks([note, summary(overrides)])
+  const block = blocks.find((b): b is SummaryBlock => b.type === 'summary')
+  if (!block) throw new Error('summary was dropped')
+  return { block, issues }
+}
+
+describe('validateBlocks summaries', () => {
+  it('keeps well-formed Q&A and drops entries without a question or answer', () => {
+    const { block, issues } = validSummary({
+      qa: [
+        { id: 'Q-1', question: 'Why?', answer: 'Onboarding [1]', citations: [{ n: 1, blockIds: ['T-1', 'T-gone'] }], createdAt: 5 },
+        { question: 'No answer' },
+        'not an entry',
+      ],
+    })
+    expect(block.qa).toEqual([{ id: 'Q-1', question: 'Why?', answer: 'Onboarding [1]', citations: [{ n: 1, blockIds: ['T-1'] }], createdAt: 5 }])
+    expect(issues).toEqual([{ blockId: 'S-1', action: 'repaired', message: 'Fixed qa.' }])
+  })
+
+  it('gives Q&A entries without citations an empty list', () => {
+    const { block } = validSummary({ qa: [{ id: 'Q-1', question: 'Why?', answer: 'Because.', createdAt: 5 }] })
+    expect(block.qa[0].citations).toEqual([])
+  })
+
+  it('keeps sections only when every section is text', () => {
+    const sections = { what: 'Research', decisions: 'None', constraints: 'Budget', assumptions: 'None' }
+    expect(validSummary({ sections }).block.sections).toEqual(sections)
+
+    const { block, issues } = validSummary({ sections: { ...sections, decisions: ['a'] } })
+    expect(block.sections).toBeUndefined()
+    expect(issues).toEqual([{ blockId: 'S-1', action: 'repaired', message: 'Fixed sections.' }])
+  })
+})
@@ -0,0 +1,398 @@
+import type {
+  Block,
+  BlockTag,
+  CanvasSummaryData,
+  ChecklistItem,
+  Citation,
+  DecisionStatus,
+  SummaryBlock,
+  SummaryProvenance,
+  SummarySections,
+  SummarySpan,
+} from '../models/canvas'
+import { DECISION_STATUSES, createId } from '../models/canvas'
+import { normalizeTagName } from './tags'
+import { toLinkPreview } from './linkPreview'
+
+type RawRecord = Record<string, unknown>
+
+export type ValidationIssue = {
+  blockId: string | null
+  action: 'repaired' | 'dropped'
+  message: string
+}
+
+export type ValidationResult = {
+  blocks: Block[]
+  issues: ValidationIssue[]
+}
+
+export type ValidationOptions = {
+  /** IDs that live outside `raw` but may still be referenced (e.g. the canvas behind a panel summary). */
+  knownIds?: Iterable<string>
+}
+
+const DEFAULT_WIDTHS: Record<Block['type'], number> = {
+  text: 340,
+  image: 320,
+  link: 360,
+  summary: 360,
+  summary_ref: 360,
+  frame: 640,
+  connector: 1,
+  decision: 380,
+  checklist: 360,
+}
+
+const BLOCK_TYPES = Object.keys(DEFAULT_WIDTHS) as Block['type'][]
+
+const isRecord = (value: unknown): value is RawRecord => Boolean(value) && typeof value === 'object' && !Array.isArray(value)
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+const isPositiveNumber = (value: unknown): value is number => isFiniteNumber(value) && value > 0
+const isIsoString = (value: unknown): value is string => typeof value === 'string' && !Number.isNaN(Date.parse(value))
+const stringIds = (value: unknown): string[] => (Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [])
+
+function sanitizeCitations(value: unknown, ids: Set<string>): Citation[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(isRecord)
+    .filter((c) => isFiniteNumber(c.n))
+    .map((c) => ({ n: c.n as number, blockIds: stringIds(c.blockIds).filter((id) => ids.has(id)) }))
+}
+
+function sanitizeSpans(value: unknown): SummarySpan[] {
+  if (!Array.isArray(value)) return []
+  return value
+    .filter(isRecord)
+    .filter((s) => isFiniteNumber(s.start) && isFiniteNumber(s.end))
+    .map((s) => ({
+      start: s.start as number,
+      end: s.end as number,
+      citationNs: Array.isArray(s.citationNs) ? s.citationNs.filter(isFiniteNumber) : [],
+    }))
+}
+
+/** Keeps well-formed tags; returns `repaired` when anything had to be dropped or cleaned up. */
+function sanitizeTags(value: unknown): { tags: BlockTag[] | undefined; repaired: boolean } {
+  if (value === undefined) return { tags: undefined, repaired: false }
+  if (!Array.isArray(value)) return { tags: undefined, repaired: true }
+  const tags = value.filter(isRecord).flatMap((t): BlockTag[] => {
+    const tag = typeof t.tag === 'string' ? normalizeTagName(t.tag) : ''
+    if (!tag) return []
+    const quote = typeof t.quote === 'string' ? t.quote.trim() : ''
+    return [quote ? { tag, quote } : { tag }]
+  })
+  const repaired = tags.length !== value.length || tags.some((t, idx) => t.tag !== (value[idx] as RawRecord).tag)
+  return { tags: tags.length ? tags : undefined, repaired }
+}
+
+/** Keeps items with text; back-references to blocks that are gone are dropped. */
+function sanitizeChecklistItems(value: unknown, ids: Set<string>): { items: ChecklistItem[]; repaired: boolean } {
+  if (!Array.isArray(value)) return { items: [], repaired: true }
+  let repaired = false
+  const items = value.filter(isRecord).flatMap((item): ChecklistItem[] => {
+    if (typeof item.text !== 'string') return []
+    const optional = (key: 'assignee' | 'due') => (typeof item[key] === 'string' && item[key] ? (item[key] as string) : undefined)
+    const sourceBlockId = typeof item.sourceBlockId === 'string' && ids.has(item.sourceBlockId) ? item.sourceBlockId : undefined
+    if (typeof item.id !== 'string' || typeof item.done !== 'boolean' || (item.sourceBlockId !== undefined && !sourceBlockId)) {
+      repaired = true
+    }
+    return [
+      {
+        id: typeof item.id === 'string' && item.id ? item.id : createId('ITEM'),
+        text: item.text,
+        done: item.done === true,
+        assignee: optional('assignee'),
+        due: optional('due'),
+        sourceBlockId,
+      },
+    ]
+  })
+  return { items, repaired: repaired || items.length !== value.length }
+}
+
+function sanitizeProvenance(value: unknown): SummaryProvenance | undefined {
+  if (!isRecord(value)) return undefined
+  const sources = isRecord(value.sourceVersions) ? value.sourceVersions : {}
+  return {
+    provider: value.provider === 'gpt' ? 'gpt' : 'mock',
+    sourceVersions: Object.fromEntries(
+      Object.entries(sources).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+    ),
+  }
+}
+
+/** The sections only when every one of them is text; a partial set would render as blanks. */
+function sanitizeSections(value: unknown): SummarySections | undefined {
+  if (!isRecord(value)) return undefined
+  const { what, decisions, constraints, assumptions } = value
+  if (typeof what !== 'string' || typeof decisions !== 'string') return undefined
+  if (typeof constraints !== 'string' || typeof assumptions !== 'string') return undefined
+  return { what, decisions, constraints, assumptions }
+}
+
+/** Keeps question/answer pairs; entries missing either are dropped. */
+function sanitizeQa(value: unknown, ids: Set<string>): SummaryBlock['qa'] {
+  if (!Array.isArray(value)) return []
+  return value.filter(isRecord).flatMap((q): SummaryBlock['qa'] => {
+    if (typeof q.question !== 'string' || typeof q.answer !== 'string') return []
+    return [
+      {
+        id: typeof q.id === 'string' && q.id ? q.id : createId('MSG'),
+        question: q.question,
+        answer: q.answer,
+        citations: sanitizeCitations(q.citations, ids),
+        createdAt: isFiniteNumber(q.createdAt) ? q.createdAt : Date.now(),
+      },
+    ]
+  })
+}
+
+function sanitizeMessages(value: unknown, ids: Set<string>): NonNullable<SummaryBlock['messages']> {
+  if (!Array.isArray(value)) return []
+  return value.filter(isRecord).flatMap((m): NonNullable<SummaryBlock['messages']> => {
+    if (typeof m.id !== 'string' || typeof m.text !== 'string') return []
+    const createdAt = isFiniteNumber(m.createdAt) ? m.createdAt : Date.now()
+    if (m.role === 'user') return [{ id: m.id, role: 'user' as const, text: m.text, createdAt }]
+    if (m.role === 'assistant') {
+      return [{ id: m.id, role: 'assistant' as const, text: m.text, citations: sanitizeCitations(m.citations, ids), createdAt }]
+    }
+    return []
+  })
+}
+
+/**
+ * Checks untrusted block data (localStorage, imports, other tabs) against the
+ * `Block` variants. Fixable problems are repaired in place; blocks that cannot
+ * be rendered are dropped. Every change is reported in `issues`.
+ */
+export function validateBlocks(raw: unknown, options: ValidationOptions = {}): ValidationResult {
+  const issues: ValidationIssue[] = []
+  if (!Array.isArray(raw)) {
+    return { blocks: [], issues: [{ blockId: null, action: 'dropped', message: 'Block list is not an array.' }] }
+  }
+
+  const seen = new Set<string>()
+  const candidates: RawRecord[] = []
+  raw.forEach((entry, idx) => {
+    if (!isRecord(entry)) {
+      issues.push({ blockId: null, action: 'dropped', message: `Entry #${idx + 1} is not an object.` })
+      return
+    }
+    if (typeof entry.id !== 'string' || !entry.id) {
+      issues.push({ blockId: null, action: 'dropped', message: `Entry #${idx + 1} has no id.` })
+      return
+    }
+    if (seen.has(entry.id)) {
+      issues.push({ blockId: entry.id, action: 'dropped', message: 'Duplicate id.' })
+      return
+    }
+    if (!BLOCK_TYPES.includes(entry.type as Block['type'])) {
+      issues.push({ blockId: entry.id, action: 'dropped', message: `Unknown block type "${String(entry.type)}".` })
+      return
+    }
+    seen.add(entry.id)
+    candidates.push(entry)
+  })
+
+  const ids = new Set([...seen, ...(options.knownIds ?? [])])
+  const now = new Date().toISOString()
+
+  const blocks = candidates.flatMap((entry): Block[] => {
+    const id = entry.id as string
+    const type = entry.type as Block['type']
+    const repairs: string[] = []
+    const drop = (message: string): Block[] => {
+      issues.push({ blockId: id, action: 'dropped', message })
+      return []
+    }
+
+    const x = isFiniteNumber(entry.x) ? entry.x : (repairs.push('x'), 0)
+    const y = isFiniteNumber(entry.y) ? entry.y : (repairs.push('y'), 0)
+    const width = isPositiveNumber(entry.width) ? entry.width : (repairs.push('width'), DEFAULT_WIDTHS[type])
+    let height: number | undefined
+    if (entry.height === undefined || entry.height === null) height = undefined
+    else if (isPositiveNumber(entry.height)) height = entry.height
+    else repairs.push('height')
+    const createdAt = isIsoString(entry.createdAt)
+      ? entry.createdAt
+      : (repairs.push('createdAt'), isFiniteNumber(entry.createdAt) ? new Date(entry.createdAt).toISOString() : now)
+    const updatedAt = isIsoString(entry.updatedAt) ? entry.updatedAt : (repairs.push('updatedAt'), createdAt)
+    const sanitizedTags = sanitizeTags(entry.tags)
+    if (sanitizedTags.repaired) repairs.push('tags')
+    const base = { id, x, y, width, height, createdAt, updatedAt, tags: sanitizedTags.tags }
+
+    const report = (block: Block): Block[] => {
+      if (repairs.length) {
+        issues.push({ blockId: id, action: 'repaired', message: `Fixed ${repairs.join(', ')}.` })
+      }
+      return [block]
+    }
+
+    switch (type) {
+      case 'text': {
+        let text = ''
+        if (typeof entry.text === 'string') text = entry.text
+        else if (typeof entry.text === 'number') text = String(entry.text)
+        if (typeof entry.text !== 'string') repairs.push('text')
+        return report({ ...base, type, text })
+      }
+      case 'image': {
+        if (typeof entry.src !== 'string' || !entry.src.trim()) return drop('Image has no source.')
+        let aspectRatio: number | undefined
+        if (isPositiveNumber(entry.aspectRatio)) aspectRatio = entry.aspectRatio
+        else if (entry.aspectRatio !== undefined) repairs.push('aspectRatio')
+        const caption = typeof entry.caption === 'string' && entry.caption.trim() ? entry.caption : undefined
+        const alt = typeof entry.alt === 'string' && entry.alt.trim() ? entry.alt : undefined
+        return report({ ...base, type, src: entry.src, aspectRatio, caption, alt })
+      }
+      case 'link': {
+        if (typeof entry.url !== 'string' || !entry.url.trim()) return drop('Link has no URL.')
+        const label = typeof entry.label === 'string' && entry.label.trim() ? entry.label : (repairs.push('label'), entry.url)
+        const preview = entry.preview === undefined ? undefined : (toLinkPreview(entry.preview) ?? (repairs.push('preview'), undefined))
+        return report({ ...base, type, url: entry.url, label, preview })
+      }
+      case 'summary': {
+        if (typeof entry.summaryText !== 'string' || !entry.summaryText.trim()) return drop('Summary has no text.')
+        const scope = isRecord(entry.scope) ? entry.scope : {}
+        const rawEvidence = stringIds(entry.evidenceBlockIds)
+        const evidenceBlockIds = rawEvidence.filter((ref) => ids.has(ref))
+        if (evidenceBlockIds.length !== rawEvidence.length) repairs.push('evidenceBlockIds')
+        const rawScopeIds = isRecord(entry.scope) ? stringIds(scope.blockIds) : rawEvidence
+        const scopeBlockIds = rawScopeIds.filter((ref) => ids.has(ref))
+        if (!isRecord(entry.scope) || scopeBlockIds.length !== rawScopeIds.length) repairs.push('scope')
+        const sections = sanitizeSections(entry.sections)
+        if (entry.sections !== undefined && !sections) repairs.push('sections')
+        const qa = sanitizeQa(entry.qa, ids)
+        if (entry.qa !== undefined && (!Array.isArray(entry.qa) || qa.length !== entry.qa.length)) repairs.push('qa')
+        return report({
+          ...base,
+          type,
+          title: typeof entry.title === 'string' ? entry.title : 'Summary',
+          sections,
+          evidenceBlockIds,
+          summaryText: entry.summaryText,
+          citations: sanitizeCitations(entry.citations, ids),
+          spans: sanitizeSpans(entry.spans),
+          scope: { kind: scope.kind === 'canvas' ? 'canvas' : 'selection', blockIds: scopeBlockIds },
+          qa,
+          messages: sanitizeMessages(entry.messages, ids),
+          provenance: sanitizeProvenance(entry.provenance),
+        })
+      }
+      case 'summary_ref': {
+        if (typeof entry.summaryId !== 'string' || !entry.summaryId) return drop('Summary reference has no summary id.')
+        const rawScopeIds = stringIds(entry.scopeBlockIds)
+        const scopeBlockIds = rawScopeIds.filter((ref) => ids.has(ref))
+        if (scopeBlockIds.length !== rawScopeIds.length) repairs.push('scopeBlockIds')
+        const preview = typeof entry.preview === 'string' ? entry.preview : (repairs.push('preview'), '')
+        return report({
+          ...base,
+          type,
+          height: height ?? 180,
+          summaryId: entry.summaryId,
+          title: typeof entry.title === 'string' ? entry.title : 'Summary',
+          preview,
+          summaryText: typeof entry.summaryText === 'string' ? entry.summaryText : undefined,
+          scopeBlockIds,
+          pastelColor: typeof entry.pastelColor === 'string' ? entry.pastelColor : (repairs.push('pastelColor'), '#ffe8b3'),
+        })
+      }
+      case 'connector': {
+        if (typeof entry.fromId !== 'string' || typeof entry.toId !== 'string') return drop('Connector has no endpoints.')
+        if (!ids.has(entry.fromId) || !ids.has(entry.toId)) return drop('Connector points at a missing block.')
+        const label = typeof entry.label === 'string' ? entry.label : (repairs.push('label'), '')
+        return report({ ...base, type, fromId: entry.fromId, toId: entry.toId, label })
+      }
+      case 'decision': {
+        const text = (key: string) => (typeof entry[key] === 'string' ? (entry[key] as string) : (repairs.push(key), ''))
+        const status = DECISION_STATUSES.includes(entry.status as DecisionStatus)
+          ? (entry.status as DecisionStatus)
+          : (repairs.push('status'), 'proposed')
+        const alternatives = stringIds(entry.alternatives).filter((alt) => alt.trim())
+        if (!Array.isArray(entry.alternatives) || alternatives.length !== entry.alternatives.length) repairs.push('alternatives')
+        if (height === undefined) repairs.push('height')
+        return report({
+          ...base,
+          type,
+          height: height ?? 260,
+          decision: text('decision'),
+          status,
+          rationale: text('rationale'),
+          date: text('date'),
+          owner: text('owner'),
+          alternatives,
+        })
+      }
+      case 'checklist': {
+        const { items, repaired } = sanitizeChecklistItems(entry.items, ids)
+        if (repaired) repairs.push('items')
+        if (height === undefined) repairs.push('height')
+        return report({
+          ...base,
+          type,
+          height: height ?? 240,
+          title: typeof entry.title === 'string' ? entry.title : (repairs.push('title'), 'Action items'),
+          items,
+        })
+      }
+      case 'frame': {
+        const title = typeof entry.title === 'string' ? entry.title : (repairs.push('title'), 'Untitled area')
+        if (height === undefined) repairs.push('height')
+        return report({
+          ...base,
+          type,
+          title,
+          height: height ?? 420,
+          summaryId: typeof entry.summaryId === 'string' && entry.summaryId ? entry.summaryId : undefined,
+        })
+      }
+    }
+  })
+
+  return { blocks, issues }
+}
+
+/**
+ * Checks an untrusted canvas-wide summary (the panel's saved copy, imports). Null when it cannot be
+ * shown: no block count or sections that are not all text. Citations to blocks outside `knownIds`
+ * are dropped, as for summary blocks.
+ */
+export function validateCanvasSummary(raw: unknown, knownIds: Iterable<string>): CanvasSummaryData | null {
+  if (!isRecord(raw) || !isRecord(raw.sections) || !isFiniteNumber(raw.totalBlocks)) return null
+  const sectionEntries = Object.entries(raw.sections)
+  const sections = Object.fromEntries(
+    sectionEntries.filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+  )
+  if (Object.keys(sections).length !== sectionEntries.length) return null
+  const ids = new Set(knownIds)
+  const scope = isRecord(raw.scope) ? raw.scope : {}
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : 'CANVAS-SUMMARY',
+    title: typeof raw.title === 'string' ? raw.title : 'Canvas summary',
+    totalBlocks: raw.totalBlocks,
+    sections,
+    evidence: stringIds(raw.evidence),
+    summaryText:
+      typeof raw.summaryText === 'string'
+        ? raw.summaryText
+        : Object.entries(sections).map(([label, value]) => `• ${label}: ${value}`).join('\n'),
+    scope: { kind: 'canvas', blockIds: stringIds(scope.blockIds).filter((id) => ids.has(id)) },
+    qa: sanitizeQa(raw.qa, ids),
+    messages: sanitizeMessages(raw.messages, ids),
+    citations: raw.citations === undefined ? undefined : sanitizeCitations(raw.citations, ids),
+    spans: raw.spans === undefined ? undefined : sanitizeSpans(raw.spans),
+  }
+}
+
+/** One-line summary suitable for a toast; details go to the console. */
+export function describeValidationIssues(issues: ValidationIssue[]): string | null {
+  if (!issues.length) return null
+  const repaired = new Set(issues.filter((i) => i.action === 'repaired').map((i) => i.blockId)).size
+  const dropped = issues.filter((i) => i.action === 'dropped').length
+  const parts = [
+    repaired ? `repaired ${repaired} block${repaired === 1 ? '' : 's'}` : null,
+    dropped ? `removed ${dropped} unusable entr${dropped === 1 ? 'y' : 'ies'}` : null,
+  ].filter(Boolean)
+  return `Canvas data check: ${parts.join(' and ')}.`
+}